@@ -0,0 +1,259 @@
+import { createReadStream, createWriteStream, existsSync, mkdirSync, statSync, type WriteStream } from "fs";
+import { rename, rm } from "fs/promises";
+import { dirname } from "path";
+import { createInterface } from "readline";
+import type { AuditConfig, AuditEntry, AuditOutcome } from "../types.js";
+import { logger, redact } from "../utils/logger.js";
+
+/**
+ * Upper bound on entries returned by a single query
+ */
+const MAX_QUERY_LIMIT = 1000;
+
+/**
+ * Filters for querying the audit log
+ */
+export interface AuditQuery {
+  userId?: string;
+  serverId?: string;
+  tool?: string;
+  outcome?: AuditOutcome;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * Append-only audit trail of tool invocations
+ * Entries are written as JSON lines and the file is rotated by size,
+ * keeping maxFiles rotated files (audit.jsonl.1 is the most recent).
+ * Writes and rotations run in order in the background, off the request path
+ */
+export class AuditLog {
+  private currentSize = 0;
+  private stream: WriteStream | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly config: AuditConfig) {
+    try {
+      mkdirSync(dirname(config.path), { recursive: true });
+      this.currentSize = existsSync(config.path) ? statSync(config.path).size : 0;
+    } catch (error) {
+      logger.error(`Failed to prepare audit log at ${config.path}`, error as Error);
+    }
+
+    logger.info("Audit log initialized", {
+      path: config.path,
+      maxFileBytes: config.maxFileBytes,
+      maxFiles: config.maxFiles,
+    });
+  }
+
+  /**
+   * Queue an entry for writing, redacting its arguments
+   * Write failures are logged but never fail the audited call
+   */
+  record(entry: Omit<AuditEntry, "ts">): void {
+    const line =
+      JSON.stringify({
+        ts: new Date().toISOString(),
+        ...entry,
+        arguments: this.truncate(redact(entry.arguments)),
+      }) + "\n";
+
+    this.pending = this.pending.then(async () => {
+      try {
+        await this.append(line);
+      } catch (error) {
+        logger.error(`Failed to write audit entry to ${this.config.path}`, error as Error, {
+          tool: entry.tool,
+          userId: entry.userId,
+        });
+      }
+    });
+  }
+
+  /**
+   * Find entries matching a filter, newest first
+   * Files are streamed line by line, so only matching entries are held in memory
+   */
+  async query(filter: AuditQuery): Promise<AuditEntry[]> {
+    const limit = Math.min(filter.limit ?? 100, MAX_QUERY_LIMIT);
+    // Entries recorded before the query are written first
+    await this.pending;
+
+    const results: AuditEntry[] = [];
+    for (const file of this.files()) {
+      // Files are read oldest line first, so keep the newest limit matches of each
+      const matches: AuditEntry[] = [];
+      try {
+        const lines = createInterface({ input: createReadStream(file, "utf-8"), crlfDelay: Infinity });
+        for await (const line of lines) {
+          const entry = AuditLog.parseLine(line);
+          if (!entry || !AuditLog.matches(entry, filter)) {
+            continue;
+          }
+          matches.push(entry);
+          if (matches.length > limit) {
+            matches.shift();
+          }
+        }
+      } catch (error) {
+        logger.warn(`Skipping unreadable audit file ${file}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+
+      results.push(...matches.reverse());
+      if (results.length >= limit) {
+        return results.slice(0, limit);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Write queued entries and close the file
+   */
+  async close(): Promise<void> {
+    await this.pending;
+    await this.closeStream();
+  }
+
+  /**
+   * Append a line, rotating first if it would push the current file past maxFileBytes
+   */
+  private async append(line: string): Promise<void> {
+    const size = Buffer.byteLength(line);
+    if (this.currentSize > 0 && this.currentSize + size > this.config.maxFileBytes) {
+      await this.rotate();
+    }
+
+    if (!this.stream) {
+      const stream = createWriteStream(this.config.path, { flags: "a", mode: 0o600 });
+      // A failed stream is reopened for the next entry
+      stream.on("error", () => {
+        if (this.stream === stream) {
+          this.stream = null;
+        }
+      });
+      this.stream = stream;
+    }
+    const stream = this.stream;
+    await new Promise<void>((resolve, reject) => {
+      stream.once("error", reject);
+      stream.write(line, (error) => {
+        stream.off("error", reject);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+    this.currentSize += size;
+  }
+
+  /**
+   * Close the current file, if open
+   */
+  private async closeStream(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    if (stream && !stream.destroyed) {
+      await new Promise<void>((resolve) => stream.end(resolve));
+    }
+  }
+
+  /**
+   * Log files from newest to oldest
+   */
+  private files(): string[] {
+    const files = [this.config.path];
+    for (let i = 1; i <= this.config.maxFiles; i++) {
+      files.push(`${this.config.path}.${i}`);
+    }
+    return files.filter((file) => existsSync(file));
+  }
+
+  /**
+   * Shift rotated files up by one and start a fresh current file
+   */
+  private async rotate(): Promise<void> {
+    const { path, maxFiles } = this.config;
+    await this.closeStream();
+
+    if (maxFiles === 0) {
+      await rm(path, { force: true });
+    } else {
+      await rm(`${path}.${maxFiles}`, { force: true });
+      for (let i = maxFiles - 1; i >= 1; i--) {
+        await rename(`${path}.${i}`, `${path}.${i + 1}`).catch(AuditLog.ignoreMissing);
+      }
+      await rename(path, `${path}.1`).catch(AuditLog.ignoreMissing);
+    }
+
+    this.currentSize = 0;
+    logger.info("Audit log rotated", { path });
+  }
+
+  /**
+   * Truncate long strings, after the logger's redaction has masked secrets
+   */
+  private truncate(value: unknown): unknown {
+    if (typeof value === "string") {
+      return value.length > this.config.maxValueLength
+        ? `${value.slice(0, this.config.maxValueLength)}…[${value.length} chars]`
+        : value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.truncate(item));
+    }
+    if (value !== null && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, this.truncate(v)])
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Rethrow file errors other than the file not existing
+   */
+  private static ignoreMissing(error: NodeJS.ErrnoException): void {
+    if (error.code !== "ENOENT") {
+      throw error;
+    }
+  }
+
+  /**
+   * Parse a log line, ignoring blank or corrupt lines
+   */
+  private static parseLine(line: string): AuditEntry | undefined {
+    if (!line) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(line) as AuditEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Check an entry against a query filter
+   */
+  private static matches(entry: AuditEntry, filter: AuditQuery): boolean {
+    if (filter.userId && entry.userId !== filter.userId) return false;
+    if (filter.serverId && entry.serverId !== filter.serverId) return false;
+    if (filter.tool && entry.tool !== filter.tool) return false;
+    if (filter.outcome && entry.outcome !== filter.outcome) return false;
+
+    const ts = Date.parse(entry.ts);
+    if (filter.since && ts < filter.since.getTime()) return false;
+    if (filter.until && ts > filter.until.getTime()) return false;
+    return true;
+  }
+}
@@ -0,0 +1,216 @@
+import { randomUUID } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { z } from "zod";
+import type { OAuthClientConfig, OAuthConfig } from "../types.js";
+import { InvalidRequestError, OAuthError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * OAuth client known to the gateway, either from config or registered at runtime
+ */
+export interface RegisteredClient extends OAuthClientConfig {
+  source: "config" | "dynamic";
+  issuedAt: number;
+  usedAt?: number;
+}
+
+/**
+ * Client metadata accepted by the registration endpoint (RFC 7591 §2)
+ */
+const ClientMetadataSchema = z.object({
+  redirect_uris: z.array(z.string().url()).min(1),
+  client_name: z.string().max(200).optional(),
+  scope: z.string().optional(),
+  token_endpoint_auth_method: z.literal("none").default("none"),
+  grant_types: z
+    .array(z.enum(["authorization_code", "refresh_token"]))
+    .default(["authorization_code", "refresh_token"]),
+  response_types: z.array(z.literal("code")).default(["code"]),
+});
+
+const StoredClientsSchema = z.array(
+  z.object({
+    clientId: z.string().min(1),
+    clientName: z.string().optional(),
+    redirectUris: z.array(z.string()).min(1),
+    scopes: z.array(z.string()).optional(),
+    issuedAt: z.number(),
+    usedAt: z.number().optional(),
+  })
+);
+
+/**
+ * Only HTTPS, loopback HTTP and private-use (native app) schemes are accepted
+ */
+function isAllowedRedirectUri(uri: string): boolean {
+  const url = new URL(uri);
+  if (url.protocol === "http:") {
+    return ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+  }
+  return url.protocol !== "javascript:" && url.protocol !== "data:";
+}
+
+/**
+ * Store of OAuth clients
+ * Configured clients are read-only; dynamically registered clients are
+ * persisted to clientStorePath when one is set. When the registration limit is
+ * reached, the oldest dynamic client that never obtained a token makes room
+ */
+export class OAuthClientStore {
+  private clients: Map<string, RegisteredClient> = new Map();
+
+  constructor(private readonly config: OAuthConfig) {
+    for (const client of config.clients) {
+      this.clients.set(client.clientId, { ...client, source: "config", issuedAt: 0 });
+    }
+    this.load();
+  }
+
+  /**
+   * Look up a client by ID
+   */
+  get(clientId: string): RegisteredClient | undefined {
+    return this.clients.get(clientId);
+  }
+
+  /**
+   * List all known clients
+   */
+  list(): RegisteredClient[] {
+    return Array.from(this.clients.values());
+  }
+
+  /**
+   * Register a new client from RFC 7591 metadata
+   * Returns the registration response body
+   */
+  register(metadata: unknown): Record<string, unknown> {
+    const result = ClientMetadataSchema.safeParse(metadata);
+    if (!result.success) {
+      const errors = result.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join(", ");
+      const code = result.error.issues.some((issue) => issue.path[0] === "redirect_uris")
+        ? "invalid_redirect_uri"
+        : "invalid_client_metadata";
+      throw new OAuthError(code, errors);
+    }
+
+    const data = result.data;
+    const badUri = data.redirect_uris.find((uri) => !isAllowedRedirectUri(uri));
+    if (badUri) {
+      throw new OAuthError("invalid_redirect_uri", `Redirect URI not allowed: ${badUri}`);
+    }
+
+    const dynamicClients = this.list().filter((client) => client.source === "dynamic");
+    if (dynamicClients.length >= this.config.maxRegisteredClients) {
+      // Map order is registration order, so the first unused client is the oldest
+      const unused = dynamicClients.find((client) => client.usedAt === undefined);
+      if (!unused) {
+        throw new OAuthError("invalid_client_metadata", "Client registration limit reached", 503);
+      }
+      this.clients.delete(unused.clientId);
+      logger.info("Evicted unused OAuth client to make room", { clientId: unused.clientId });
+    }
+
+    const client: RegisteredClient = {
+      clientId: randomUUID(),
+      clientName: data.client_name,
+      redirectUris: data.redirect_uris,
+      scopes: data.scope ? data.scope.split(" ").filter(Boolean) : undefined,
+      source: "dynamic",
+      issuedAt: Math.floor(Date.now() / 1000),
+    };
+    this.clients.set(client.clientId, client);
+    this.save();
+
+    logger.info("OAuth client registered", {
+      clientId: client.clientId,
+      clientName: client.clientName,
+    });
+
+    return {
+      client_id: client.clientId,
+      client_id_issued_at: client.issuedAt,
+      client_name: client.clientName,
+      redirect_uris: client.redirectUris,
+      scope: client.scopes?.join(" "),
+      token_endpoint_auth_method: data.token_endpoint_auth_method,
+      grant_types: data.grant_types,
+      response_types: data.response_types,
+    };
+  }
+
+  /**
+   * Record that a client obtained a token, which protects it from eviction
+   */
+  markUsed(clientId: string): void {
+    const client = this.clients.get(clientId);
+    if (client?.source === "dynamic" && client.usedAt === undefined) {
+      client.usedAt = Math.floor(Date.now() / 1000);
+      this.save();
+    }
+  }
+
+  /**
+   * Revoke a dynamically registered client
+   * Returns false if no such client exists
+   */
+  revoke(clientId: string): boolean {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return false;
+    }
+    if (client.source === "config") {
+      throw new InvalidRequestError(
+        `Client ${clientId} is defined in config and cannot be revoked at runtime`
+      );
+    }
+
+    this.clients.delete(clientId);
+    this.save();
+    logger.info("OAuth client revoked", { clientId });
+    return true;
+  }
+
+  /**
+   * Load persisted dynamic clients
+   */
+  private load(): void {
+    const path = this.config.clientStorePath;
+    if (!path || !existsSync(path)) {
+      return;
+    }
+
+    try {
+      const stored = StoredClientsSchema.parse(JSON.parse(readFileSync(path, "utf-8")));
+      for (const client of stored) {
+        if (!this.clients.has(client.clientId)) {
+          this.clients.set(client.clientId, { ...client, source: "dynamic" });
+        }
+      }
+      logger.info(`Loaded ${stored.length} registered OAuth clients from ${path}`);
+    } catch (error) {
+      logger.error(`Failed to load OAuth clients from ${path}`, error as Error);
+    }
+  }
+
+  /**
+   * Persist dynamic clients, if a store path is configured
+   */
+  private save(): void {
+    const path = this.config.clientStorePath;
+    if (!path) {
+      return;
+    }
+
+    const stored = this.list()
+      .filter((client) => client.source === "dynamic")
+      .map(({ source: _source, ...client }) => client);
+    try {
+      writeFileSync(path, JSON.stringify(stored, null, 2));
+    } catch (error) {
+      logger.error(`Failed to persist OAuth clients to ${path}`, error as Error);
+    }
+  }
+}
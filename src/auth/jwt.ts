@@ -0,0 +1,313 @@
+import { constants, createPublicKey, verify, type JsonWebKey, type KeyObject } from "crypto";
+import { readFileSync } from "fs";
+import type { AuthenticatedUser, JwtConfig } from "../types.js";
+import type { TokenValidator } from "./provider.js";
+import { AuthenticationError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+// Minimum time between JWKS refetches triggered by an unknown key ID (30 seconds)
+const MIN_JWKS_REFRESH_MS = 30000;
+
+// Timeout for fetching a remote JWKS (10 seconds)
+const JWKS_FETCH_TIMEOUT_MS = 10000;
+
+/**
+ * Verification parameters for each supported JWS algorithm
+ */
+const ALGORITHMS: Record<
+  string,
+  { hash: string | null; kty: string; dsaEncoding?: "ieee-p1363"; padding?: number }
+> = {
+  RS256: { hash: "sha256", kty: "RSA" },
+  RS384: { hash: "sha384", kty: "RSA" },
+  RS512: { hash: "sha512", kty: "RSA" },
+  PS256: { hash: "sha256", kty: "RSA", padding: constants.RSA_PKCS1_PSS_PADDING },
+  PS384: { hash: "sha384", kty: "RSA", padding: constants.RSA_PKCS1_PSS_PADDING },
+  PS512: { hash: "sha512", kty: "RSA", padding: constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: "sha256", kty: "EC", dsaEncoding: "ieee-p1363" },
+  ES384: { hash: "sha384", kty: "EC", dsaEncoding: "ieee-p1363" },
+  ES512: { hash: "sha512", kty: "EC", dsaEncoding: "ieee-p1363" },
+  EdDSA: { hash: null, kty: "OKP" },
+};
+
+/**
+ * Public key loaded from a JWKS
+ */
+interface JwksKey {
+  kid?: string;
+  kty: string;
+  alg?: string;
+  key: KeyObject;
+}
+
+/**
+ * Decode a base64url JSON segment, returning undefined if it is not valid JSON
+ */
+function decodeSegment(segment: string): Record<string, unknown> | undefined {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(segment, "base64url").toString("utf-8"));
+    return value !== null && typeof value === "object" ? (value as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read a claim by name, supporting dotted paths for nested claims
+ */
+function getClaim(payload: Record<string, unknown>, path: string): unknown {
+  if (path in payload) {
+    return payload[path];
+  }
+  return path.split(".").reduce<unknown>((value, key) => {
+    if (value !== null && typeof value === "object") {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, payload);
+}
+
+/**
+ * Signing keys from a JWKS URL or local file, cached and refreshed on key rotation
+ */
+class JwksKeySource {
+  private keys: JwksKey[] = [];
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(private readonly config: JwtConfig) {}
+
+  /**
+   * Find the key for a token, refreshing the key set if it is stale or the key ID is unknown
+   */
+  async getKey(kid: string | undefined, alg: string): Promise<KeyObject | undefined> {
+    const age = Date.now() - this.loadedAt;
+    if (this.loadedAt === 0 || age > this.config.jwksCacheSeconds * 1000) {
+      await this.reload();
+    }
+
+    let key = this.findKey(kid, alg);
+    if (!key && Date.now() - this.loadedAt > MIN_JWKS_REFRESH_MS) {
+      await this.reload();
+      key = this.findKey(kid, alg);
+    }
+    return key?.key;
+  }
+
+  /**
+   * Match a key by ID and key type
+   */
+  private findKey(kid: string | undefined, alg: string): JwksKey | undefined {
+    const kty = ALGORITHMS[alg]?.kty;
+    return this.keys.find(
+      (key) =>
+        key.kty === kty &&
+        (kid === undefined || key.kid === kid) &&
+        (key.alg === undefined || key.alg === alg)
+    );
+  }
+
+  /**
+   * Reload the key set, sharing a single in-flight load between callers
+   */
+  private async reload(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null;
+      });
+    }
+    await this.loading;
+  }
+
+  /**
+   * Fetch and parse the JWKS
+   */
+  private async load(): Promise<void> {
+    const source = this.config.jwksUrl ?? this.config.jwksPath ?? "";
+    try {
+      let jwks: unknown;
+      if (this.config.jwksUrl) {
+        const response = await fetch(this.config.jwksUrl, {
+          signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        jwks = await response.json();
+      } else {
+        jwks = JSON.parse(readFileSync(source, "utf-8"));
+      }
+
+      const entries = (jwks as { keys?: unknown }).keys;
+      if (!Array.isArray(entries)) {
+        throw new Error("JWKS has no keys array");
+      }
+
+      const keys: JwksKey[] = [];
+      for (const jwk of entries as JsonWebKey[]) {
+        if (jwk.use === "enc") {
+          continue;
+        }
+        try {
+          keys.push({
+            kid: typeof jwk.kid === "string" ? jwk.kid : undefined,
+            kty: String(jwk.kty),
+            alg: typeof jwk.alg === "string" ? jwk.alg : undefined,
+            key: createPublicKey({ key: jwk, format: "jwk" }),
+          });
+        } catch (error) {
+          logger.warn("Skipping unusable JWKS key", {
+            kid: jwk.kid,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      this.keys = keys;
+      logger.info(`Loaded ${keys.length} JWT signing keys`, { source });
+    } catch (error) {
+      // Keep serving previously loaded keys
+      logger.error(`Failed to load JWKS from ${source}`, error as Error);
+    } finally {
+      this.loadedAt = Date.now();
+    }
+  }
+}
+
+/**
+ * Validates JWT access tokens from an external identity provider
+ * Checks signature, issuer, audience, expiry and not-before (with clock skew)
+ * and maps claims onto the authenticated user
+ */
+export class JwtValidator implements TokenValidator {
+  readonly name = "jwt";
+  private readonly keys: JwksKeySource;
+  private readonly audiences: string[];
+
+  constructor(private readonly config: JwtConfig) {
+    this.keys = new JwksKeySource(config);
+    this.audiences = Array.isArray(config.audience) ? config.audience : [config.audience];
+    logger.info("JWT validator initialized", {
+      issuer: config.issuer,
+      audiences: this.audiences,
+    });
+  }
+
+  /**
+   * Validate a token, returning null if it is not a JWT at all
+   */
+  async validate(token: string): Promise<AuthenticatedUser | null> {
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+      return null;
+    }
+
+    const header = decodeSegment(parts[0]);
+    const payload = decodeSegment(parts[1]);
+    if (!header || !payload) {
+      return null;
+    }
+
+    const alg = typeof header.alg === "string" ? header.alg : "";
+    const params = ALGORITHMS[alg];
+    if (!params || !this.config.algorithms.includes(alg)) {
+      throw new AuthenticationError(`Unsupported JWT algorithm: ${alg || "(none)"}`);
+    }
+
+    const key = await this.keys.getKey(
+      typeof header.kid === "string" ? header.kid : undefined,
+      alg
+    );
+    if (!key) {
+      throw new AuthenticationError("Unknown JWT signing key");
+    }
+
+    // A key that does not fit the algorithm makes verify throw rather than return false
+    let valid: boolean;
+    try {
+      valid = verify(
+        params.hash,
+        Buffer.from(`${parts[0]}.${parts[1]}`),
+        {
+          key,
+          dsaEncoding: params.dsaEncoding,
+          padding: params.padding,
+          saltLength: params.padding ? constants.RSA_PSS_SALTLEN_DIGEST : undefined,
+        },
+        Buffer.from(parts[2], "base64url")
+      );
+    } catch (error) {
+      logger.warn("JWT signature verification failed", {
+        alg,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      valid = false;
+    }
+    if (!valid) {
+      throw new AuthenticationError("Invalid JWT signature");
+    }
+
+    this.verifyClaims(payload);
+    return this.mapUser(payload);
+  }
+
+  /**
+   * Check registered claims: iss, aud, exp and nbf
+   */
+  private verifyClaims(payload: Record<string, unknown>): void {
+    const now = Math.floor(Date.now() / 1000);
+    const skew = this.config.clockSkewSeconds;
+
+    if (payload.iss !== this.config.issuer) {
+      throw new AuthenticationError("Invalid JWT issuer");
+    }
+
+    const aud = payload.aud;
+    const tokenAudiences = Array.isArray(aud) ? aud : [aud];
+    if (!tokenAudiences.some((value) => typeof value === "string" && this.audiences.includes(value))) {
+      throw new AuthenticationError("Invalid JWT audience");
+    }
+
+    if (typeof payload.exp !== "number") {
+      throw new AuthenticationError("JWT has no expiry");
+    }
+    if (payload.exp + skew <= now) {
+      throw new AuthenticationError("JWT expired");
+    }
+    if (typeof payload.nbf === "number" && payload.nbf - skew > now) {
+      throw new AuthenticationError("JWT not yet valid");
+    }
+  }
+
+  /**
+   * Map token claims onto the authenticated user
+   * The user ID is the id claim behind userIdPrefix
+   */
+  private mapUser(payload: Record<string, unknown>): AuthenticatedUser {
+    const claims = this.config.claims;
+    const id = getClaim(payload, claims.id);
+    if (typeof id !== "string" || id.length === 0) {
+      throw new AuthenticationError(`JWT is missing the ${claims.id} claim`);
+    }
+
+    const email = getClaim(payload, claims.email);
+    const name = getClaim(payload, claims.name);
+    const rawScopes = getClaim(payload, claims.scopes);
+
+    let scopes: string[];
+    if (typeof rawScopes === "string") {
+      scopes = rawScopes.split(" ").filter(Boolean);
+    } else if (Array.isArray(rawScopes)) {
+      scopes = rawScopes.filter((scope): scope is string => typeof scope === "string");
+    } else {
+      scopes = [...this.config.defaultScopes];
+    }
+
+    return {
+      id: `${this.config.userIdPrefix}${id}`,
+      email: typeof email === "string" ? email : "",
+      name: typeof name === "string" ? name : id,
+      scopes,
+    };
+  }
+}
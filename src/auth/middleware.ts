@@ -3,11 +3,44 @@ import type { AuthenticatedRequest } from "../types.js";
 import { AuthProvider } from "./provider.js";
 import { AuthenticationError } from "../utils/errors.js";
 import { logger } from "../utils/logger.js";
+import { authFailuresTotal } from "../utils/metrics.js";
+import { tracer } from "../utils/tracing.js";
+
+/**
+ * Options for the authentication middleware
+ */
+export interface AuthMiddlewareOptions {
+  // Advertised in WWW-Authenticate so clients can discover the authorization server
+  resourceMetadataUrl?: string;
+}
+
+/**
+ * Build a WWW-Authenticate bearer challenge
+ */
+function bearerChallenge(options: AuthMiddlewareOptions, error?: string): string {
+  let challenge = 'Bearer realm="mcp-gateway"';
+  if (error) {
+    challenge += `, error="${error}"`;
+  }
+  if (options.resourceMetadataUrl) {
+    challenge += `, resource_metadata="${options.resourceMetadataUrl}"`;
+  }
+  return challenge;
+}
+
+/**
+ * Bucket an authentication failure into a low-cardinality metric reason
+ */
+function failureReason(error: AuthenticationError): string {
+  if (/expired/i.test(error.message)) return "expired";
+  if (/revoked/i.test(error.message)) return "revoked";
+  return "invalid_token";
+}
 
 /**
  * Create Express middleware for OAuth bearer token authentication
  */
-export function createAuthMiddleware(authProvider: AuthProvider) {
+export function createAuthMiddleware(authProvider: AuthProvider, options: AuthMiddlewareOptions = {}) {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
     // Skip authentication if disabled
     if (!authProvider.isEnabled()) {
@@ -20,13 +53,14 @@ export function createAuthMiddleware(authProvider: AuthProvider) {
     const token = AuthProvider.extractBearerToken(authHeader);
 
     if (!token) {
+      authFailuresTotal.inc({ reason: "missing_token" });
       logger.warn("Missing or invalid Authorization header", {
         path: req.path,
         method: req.method,
       });
       res
         .status(401)
-        .setHeader("WWW-Authenticate", 'Bearer realm="mcp-gateway"')
+        .setHeader("WWW-Authenticate", bearerChallenge(options))
         .json({
           error: "unauthorized",
           error_description: "Missing or invalid Authorization header",
@@ -34,28 +68,36 @@ export function createAuthMiddleware(authProvider: AuthProvider) {
       return;
     }
 
-    try {
-      const user = authProvider.validateToken(token);
-      req.user = user;
-      logger.debug("User authenticated", { userId: user.id, path: req.path });
-      next();
-    } catch (error) {
-      if (error instanceof AuthenticationError) {
-        logger.warn("Authentication failed", {
-          path: req.path,
-          method: req.method,
-        });
-        res
-          .status(401)
-          .setHeader("WWW-Authenticate", 'Bearer realm="mcp-gateway", error="invalid_token"')
-          .json({
-            error: "unauthorized",
-            error_description: error.message,
+    tracer
+      .withSpan("auth.validate_token", {}, async (span) => {
+        const user = await authProvider.validateToken(token);
+        span.setAttributes({ "enduser.id": user.id, "oauth.client_id": user.clientId });
+        return user;
+      })
+      .then((user) => {
+        req.user = user;
+        logger.debug("User authenticated", { userId: user.id, clientId: user.clientId, path: req.path });
+        next();
+      })
+      .catch((error: unknown) => {
+        if (error instanceof AuthenticationError) {
+          authFailuresTotal.inc({ reason: failureReason(error) });
+          logger.warn("Authentication failed", {
+            path: req.path,
+            method: req.method,
+            reason: error.message,
           });
-        return;
-      }
-      next(error);
-    }
+          res
+            .status(401)
+            .setHeader("WWW-Authenticate", bearerChallenge(options, "invalid_token"))
+            .json({
+              error: "unauthorized",
+              error_description: error.message,
+            });
+          return;
+        }
+        next(error);
+      });
   };
 }
 
@@ -76,6 +118,7 @@ export function requireScopes(...requiredScopes: string[]) {
 
     const hasAllScopes = requiredScopes.every((scope) => user.scopes.includes(scope));
     if (!hasAllScopes) {
+      authFailuresTotal.inc({ reason: "insufficient_scope" });
       logger.warn("Insufficient scopes", {
         userId: user.id,
         requiredScopes,
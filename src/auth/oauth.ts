@@ -0,0 +1,409 @@
+import { createHash } from "crypto";
+import express, {
+  type NextFunction,
+  type Request,
+  type RequestHandler,
+  type Response,
+  type Router,
+} from "express";
+import type { AuthenticatedUser, OAuthConfig, RateLimitRule } from "../types.js";
+import type { AuthProvider } from "./provider.js";
+import type { OAuthClientStore, RegisteredClient } from "./clients.js";
+import type { IssuedTokens, OAuthTokenStore } from "./tokens.js";
+import { TokenBucketMap } from "../ratelimit/bucket.js";
+import { AuthenticationError, OAuthError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+import { rateLimitedTotal } from "../utils/metrics.js";
+
+/**
+ * Validated parameters of an authorization request
+ */
+interface AuthorizationRequest {
+  client: RegisteredClient;
+  redirectUri: string;
+  codeChallenge: string;
+  state?: string;
+  scope?: string;
+}
+
+/**
+ * Escape a value for inclusion in HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Read a single string parameter from a query or form body
+ */
+function param(source: Record<string, unknown>, name: string): string | undefined {
+  const value = source[name];
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Built-in OAuth 2.1 authorization server
+ * Supports the authorization code grant with PKCE (S256) and rotating refresh tokens.
+ * Users log in with their configured email and access key.
+ * The unauthenticated endpoints are rate limited per client IP
+ */
+export class OAuthServer {
+  private readonly ipBuckets = new TokenBucketMap();
+
+  constructor(
+    private readonly config: OAuthConfig,
+    private readonly baseUrl: string,
+    private readonly authProvider: AuthProvider,
+    private readonly tokenStore: OAuthTokenStore,
+    private readonly clientStore: OAuthClientStore
+  ) {
+    logger.info("OAuth authorization server initialized", {
+      clientCount: clientStore.list().length,
+      dynamicRegistration: config.dynamicRegistration,
+    });
+  }
+
+  /**
+   * Authorization server metadata (RFC 8414)
+   */
+  getMetadata(): Record<string, unknown> {
+    return {
+      issuer: this.baseUrl,
+      authorization_endpoint: `${this.baseUrl}/authorize`,
+      token_endpoint: `${this.baseUrl}/token`,
+      registration_endpoint: this.config.dynamicRegistration
+        ? `${this.baseUrl}/register`
+        : undefined,
+      response_types_supported: ["code"],
+      grant_types_supported: ["authorization_code", "refresh_token"],
+      code_challenge_methods_supported: ["S256"],
+      token_endpoint_auth_methods_supported: ["none"],
+      scopes_supported: ["tools:read", "tools:execute"],
+    };
+  }
+
+  /**
+   * Create the Express router exposing the OAuth endpoints
+   */
+  createRouter(): Router {
+    const router = express.Router();
+    router.use(express.urlencoded({ extended: false }));
+
+    router.get("/.well-known/oauth-authorization-server", (_req: Request, res: Response) => {
+      res.json(this.getMetadata());
+    });
+
+    const authorizeLimit = this.limitByIp("authorize", this.config.endpointRateLimit);
+    const tokenLimit = this.limitByIp("token", this.config.endpointRateLimit);
+    const registerLimit = this.limitByIp("register", this.config.registrationRateLimit);
+
+    router.get("/authorize", authorizeLimit, (req: Request, res: Response) => {
+      this.handleAuthorize(req.query as Record<string, unknown>, res, (request) => {
+        res.type("html").send(this.renderLoginPage(request));
+      });
+    });
+
+    router.post("/authorize", authorizeLimit, (req: Request, res: Response) => {
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      this.handleAuthorize(body, res, (request) => {
+        let user: AuthenticatedUser;
+        try {
+          user = this.authProvider.authenticateCredentials(
+            param(body, "email") ?? "",
+            param(body, "access_key") ?? ""
+          );
+        } catch (error) {
+          if (error instanceof AuthenticationError) {
+            logger.warn("OAuth login failed", { clientId: request.client.clientId });
+            res.status(401).type("html").send(this.renderLoginPage(request, error.message));
+            return;
+          }
+          throw error;
+        }
+
+        const scopes = OAuthServer.grantScopes(request.scope, user.scopes, request.client.scopes);
+        const code = this.tokenStore.createAuthorizationCode({
+          clientId: request.client.clientId,
+          redirectUri: request.redirectUri,
+          codeChallenge: request.codeChallenge,
+          scopes,
+          user,
+        });
+
+        logger.info("OAuth authorization granted", {
+          clientId: request.client.clientId,
+          userId: user.id,
+          scopes,
+        });
+
+        res.redirect(302, OAuthServer.buildRedirect(request.redirectUri, { code, state: request.state }));
+      });
+    });
+
+    router.post("/token", tokenLimit, (req: Request, res: Response) => {
+      res.setHeader("Cache-Control", "no-store");
+      res.setHeader("Pragma", "no-cache");
+
+      try {
+        const tokens = this.handleTokenRequest((req.body ?? {}) as Record<string, unknown>);
+        res.json({
+          access_token: tokens.accessToken,
+          token_type: "Bearer",
+          expires_in: tokens.expiresIn,
+          refresh_token: tokens.refreshToken,
+          scope: tokens.scopes.join(" "),
+        });
+      } catch (error) {
+        if (error instanceof OAuthError) {
+          logger.warn("OAuth token request rejected", { error: error.oauthCode });
+          res.status(error.statusCode).json({
+            error: error.oauthCode,
+            error_description: error.message,
+          });
+          return;
+        }
+        throw error;
+      }
+    });
+
+    if (this.config.dynamicRegistration) {
+      router.post("/register", registerLimit, (req: Request, res: Response) => {
+        res.setHeader("Cache-Control", "no-store");
+        try {
+          res.status(201).json(this.clientStore.register(req.body));
+        } catch (error) {
+          if (error instanceof OAuthError) {
+            logger.warn("OAuth client registration rejected", { error: error.message });
+            res.status(error.statusCode).json({
+              error: error.oauthCode,
+              error_description: error.message,
+            });
+            return;
+          }
+          throw error;
+        }
+      });
+    }
+
+    return router;
+  }
+
+  /**
+   * Create middleware limiting requests to one endpoint per client IP
+   * Rejected requests get HTTP 429 with Retry-After
+   */
+  private limitByIp(endpoint: string, rule: RateLimitRule | null): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (!rule) {
+        next();
+        return;
+      }
+
+      const bucket = this.ipBuckets.get(`${endpoint}:${req.ip ?? "unknown"}`, rule);
+      const waitMs = bucket.waitTime(1);
+      if (waitMs === 0) {
+        bucket.take(1);
+        next();
+        return;
+      }
+
+      rateLimitedTotal.inc({ limit: "ip" });
+      logger.warn("OAuth endpoint rate limited", { endpoint, ip: req.ip });
+      res.setHeader("Retry-After", String(Math.max(1, Math.ceil(waitMs / 1000))));
+      res.status(429).json({
+        error: "temporarily_unavailable",
+        error_description: "Too many requests, try again later",
+      });
+    };
+  }
+
+  /**
+   * Validate an authorization request and hand it to the next step
+   * Errors before the redirect URI is trusted are shown to the user;
+   * later errors are returned to the client via redirect
+   */
+  private handleAuthorize(
+    params: Record<string, unknown>,
+    res: Response,
+    next: (request: AuthorizationRequest) => void
+  ): void {
+    const clientId = param(params, "client_id");
+    const client = clientId ? this.clientStore.get(clientId) : undefined;
+    if (!client) {
+      res.status(400).type("text").send("Invalid or missing client_id");
+      return;
+    }
+
+    const requestedRedirect = param(params, "redirect_uri");
+    const redirectUri =
+      requestedRedirect ?? (client.redirectUris.length === 1 ? client.redirectUris[0] : undefined);
+    if (!redirectUri || !client.redirectUris.includes(redirectUri)) {
+      res.status(400).type("text").send("Invalid or missing redirect_uri");
+      return;
+    }
+
+    const state = param(params, "state");
+    const fail = (error: string, description: string): void => {
+      res.redirect(
+        302,
+        OAuthServer.buildRedirect(redirectUri, { error, error_description: description, state })
+      );
+    };
+
+    if (param(params, "response_type") !== "code") {
+      fail("unsupported_response_type", "Only response_type=code is supported");
+      return;
+    }
+
+    const codeChallenge = param(params, "code_challenge");
+    if (!codeChallenge) {
+      fail("invalid_request", "code_challenge is required");
+      return;
+    }
+    if (param(params, "code_challenge_method") !== "S256") {
+      fail("invalid_request", "code_challenge_method must be S256");
+      return;
+    }
+
+    next({ client, redirectUri, codeChallenge, state, scope: param(params, "scope") });
+  }
+
+  /**
+   * Handle a token endpoint request
+   */
+  private handleTokenRequest(body: Record<string, unknown>): IssuedTokens {
+    const clientId = param(body, "client_id");
+    const client = clientId ? this.clientStore.get(clientId) : undefined;
+    if (!clientId || !client) {
+      throw new OAuthError("invalid_client", "Unknown client", 401);
+    }
+
+    const grantType = param(body, "grant_type");
+
+    if (grantType === "authorization_code") {
+      const code = param(body, "code");
+      const codeVerifier = param(body, "code_verifier");
+      if (!code || !codeVerifier) {
+        throw new OAuthError("invalid_request", "code and code_verifier are required");
+      }
+
+      const record = this.tokenStore.consumeAuthorizationCode(code);
+      if (!record || record.clientId !== clientId || !this.authProvider.isLoginActive(record.user)) {
+        throw new OAuthError("invalid_grant", "Invalid or expired authorization code");
+      }
+      if (param(body, "redirect_uri") !== undefined && param(body, "redirect_uri") !== record.redirectUri) {
+        throw new OAuthError("invalid_grant", "redirect_uri does not match the authorization request");
+      }
+
+      const challenge = createHash("sha256").update(codeVerifier).digest("base64url");
+      if (challenge !== record.codeChallenge) {
+        throw new OAuthError("invalid_grant", "PKCE verification failed");
+      }
+
+      this.clientStore.markUsed(clientId);
+      return this.tokenStore.issueTokens(clientId, record.user, record.scopes);
+    }
+
+    if (grantType === "refresh_token") {
+      const refreshToken = param(body, "refresh_token");
+      if (!refreshToken) {
+        throw new OAuthError("invalid_request", "refresh_token is required");
+      }
+
+      const tokens = this.tokenStore.rotateRefreshToken(
+        refreshToken,
+        clientId,
+        (user) => this.authProvider.currentLogin(user),
+        client.scopes
+      );
+      if (!tokens) {
+        throw new OAuthError("invalid_grant", "Invalid or expired refresh token");
+      }
+      return tokens;
+    }
+
+    throw new OAuthError("unsupported_grant_type", `Unsupported grant_type: ${grantType ?? "(none)"}`);
+  }
+
+  /**
+   * Grant the requested scopes the user actually holds, or all of them if none were requested
+   * Clients registered with a scope list never receive scopes outside it
+   */
+  private static grantScopes(
+    requested: string | undefined,
+    userScopes: string[],
+    clientScopes?: string[]
+  ): string[] {
+    const candidates = requested ? requested.split(" ").filter(Boolean) : userScopes;
+    return candidates.filter(
+      (scope) => userScopes.includes(scope) && (!clientScopes || clientScopes.includes(scope))
+    );
+  }
+
+  /**
+   * Append query parameters to a redirect URI
+   */
+  private static buildRedirect(redirectUri: string, params: Record<string, string | undefined>): string {
+    const url = new URL(redirectUri);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, value);
+      }
+    }
+    return url.toString();
+  }
+
+  /**
+   * Render the login form for an authorization request
+   */
+  private renderLoginPage(request: AuthorizationRequest, error?: string): string {
+    const hidden: Record<string, string | undefined> = {
+      response_type: "code",
+      client_id: request.client.clientId,
+      redirect_uri: request.redirectUri,
+      code_challenge: request.codeChallenge,
+      code_challenge_method: "S256",
+      state: request.state,
+      scope: request.scope,
+    };
+    const clientName = request.client.clientName ?? request.client.clientId;
+
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+  <title>MCP Gateway - Sign in</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 400px; margin: 0 auto; padding: 2rem; }
+    h1 { color: #333; }
+    label { display: block; margin-top: 1rem; color: #666; }
+    input { width: 100%; padding: 0.5rem; box-sizing: border-box; }
+    button { margin-top: 1.5rem; padding: 0.5rem 1rem; background: #0066cc; color: #fff; border: 0; border-radius: 4px; }
+    .error { background: #fdecea; color: #b00020; padding: 0.75rem; border-radius: 4px; }
+  </style>
+</head>
+<body>
+  <h1>Sign in</h1>
+  <p><strong>${escapeHtml(clientName)}</strong> wants to access your MCP Gateway tools.</p>
+  ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+  <form method="post" action="${escapeHtml(this.baseUrl)}/authorize">
+    ${Object.entries(hidden)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value as string)}">`)
+      .join("\n    ")}
+    <label for="email">Email</label>
+    <input id="email" name="email" type="email" required>
+    <label for="access_key">Access key</label>
+    <input id="access_key" name="access_key" type="password" required>
+    <button type="submit">Authorize</button>
+  </form>
+</body>
+</html>
+    `;
+  }
+}
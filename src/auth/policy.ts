@@ -0,0 +1,250 @@
+import { posix } from "path";
+import type {
+  ArgumentConstraint,
+  AuthenticatedUser,
+  PolicyAction,
+  PolicyConfig,
+  PolicyDecision,
+  PolicyRule,
+} from "../types.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Scope required for each action when tool scopes are enforced
+ * Listing is also allowed with tools:execute, since a caller must see a tool to call it
+ */
+const ACTION_SCOPES: Record<PolicyAction, string[]> = {
+  list: ["tools:read", "tools:execute"],
+  call: ["tools:execute"],
+};
+
+/**
+ * Policy rule with its tool globs compiled
+ */
+interface CompiledRule {
+  rule: PolicyRule;
+  label: string;
+  patterns: RegExp[];
+  argumentPatterns: Map<string, RegExp>;
+}
+
+/**
+ * Compile a tool name glob ("*" and "?") into an anchored regular expression
+ */
+export function compileGlob(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Read an argument by name, supporting dotted paths for nested objects
+ */
+function getArgument(args: Record<string, unknown>, path: string): unknown {
+  if (path in args) {
+    return args[path];
+  }
+  return path.split(".").reduce<unknown>((value, key) => {
+    if (value !== null && typeof value === "object") {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, args);
+}
+
+/**
+ * Per-tool authorization policy
+ * Deny rules win over allow rules; tools no rule matches get the default effect.
+ * Allow rules with argument constraints only permit calls whose arguments satisfy them,
+ * while deny rules with argument constraints only block such calls.
+ */
+export class ToolPolicy {
+  private readonly rules: CompiledRule[];
+
+  constructor(private readonly config: PolicyConfig) {
+    this.rules = config.rules.map((rule, index) => ({
+      rule,
+      label: rule.id ?? `#${index + 1}`,
+      patterns: rule.tools.map(compileGlob),
+      argumentPatterns: new Map(
+        Object.entries(rule.arguments ?? {})
+          .filter(([, constraint]) => constraint.pattern !== undefined)
+          .map(([name, constraint]) => [name, new RegExp(constraint.pattern as string)])
+      ),
+    }));
+
+    logger.info("Tool policy initialized", {
+      enforceToolScopes: config.enforceToolScopes,
+      defaultEffect: config.defaultEffect,
+      ruleCount: this.rules.length,
+    });
+  }
+
+  /**
+   * Decide whether a user may list or call a tool
+   * Arguments are only checked for calls; listing ignores argument constraints
+   */
+  evaluate(
+    user: AuthenticatedUser,
+    toolName: string,
+    action: PolicyAction,
+    args: Record<string, unknown> = {}
+  ): PolicyDecision {
+    if (this.config.enforceToolScopes) {
+      const accepted = ACTION_SCOPES[action];
+      if (!accepted.some((scope) => user.scopes.includes(scope))) {
+        return {
+          allowed: false,
+          reason: `Scope ${accepted[0]} is required to ${action} tools`,
+        };
+      }
+    }
+
+    const matching = this.rules.filter(
+      (compiled) =>
+        compiled.rule.actions.includes(action) &&
+        compiled.patterns.some((pattern) => pattern.test(toolName)) &&
+        ToolPolicy.appliesTo(compiled.rule, user)
+    );
+
+    for (const compiled of matching.filter((c) => c.rule.effect === "deny")) {
+      const constrained = compiled.rule.arguments !== undefined;
+      if (!constrained || (action === "call" && this.checkArguments(compiled, args) === null)) {
+        return {
+          allowed: false,
+          reason: `Denied by policy rule ${compiled.label}`,
+          rule: compiled.label,
+        };
+      }
+    }
+
+    const allowRules = matching.filter((c) => c.rule.effect === "allow");
+    if (allowRules.length === 0) {
+      return {
+        allowed: this.config.defaultEffect === "allow",
+        reason: `No policy rule matched; default effect is ${this.config.defaultEffect}`,
+      };
+    }
+
+    let violation: { label: string; message: string } | undefined;
+    for (const compiled of allowRules) {
+      const failure = action === "call" ? this.checkArguments(compiled, args) : null;
+      if (failure === null) {
+        return {
+          allowed: true,
+          reason: `Allowed by policy rule ${compiled.label}`,
+          rule: compiled.label,
+        };
+      }
+      violation ??= { label: compiled.label, message: failure };
+    }
+
+    return {
+      allowed: false,
+      reason: `Arguments violate policy rule ${violation?.label}: ${violation?.message}`,
+      rule: violation?.label,
+    };
+  }
+
+  /**
+   * Check whether a rule targets a user, by ID or by any of the rule's scopes
+   */
+  private static appliesTo(rule: PolicyRule, user: AuthenticatedUser): boolean {
+    if (!rule.users && !rule.scopes) {
+      return true;
+    }
+    return (
+      (rule.users?.includes(user.id) ?? false) ||
+      (rule.scopes?.some((scope) => user.scopes.includes(scope)) ?? false)
+    );
+  }
+
+  /**
+   * Check a rule's argument constraints, returning the first failure or null if all hold
+   */
+  private checkArguments(compiled: CompiledRule, args: Record<string, unknown>): string | null {
+    for (const [name, constraint] of Object.entries(compiled.rule.arguments ?? {})) {
+      const failure = ToolPolicy.checkConstraint(
+        name,
+        getArgument(args, name),
+        constraint,
+        compiled.argumentPatterns.get(name)
+      );
+      if (failure) {
+        return failure;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check one argument against its constraint, returning a description of the failure
+   */
+  private static checkConstraint(
+    name: string,
+    value: unknown,
+    constraint: ArgumentConstraint,
+    pattern?: RegExp
+  ): string | null {
+    if (value === undefined) {
+      return `${name} is required`;
+    }
+    if (constraint.equals !== undefined && value !== constraint.equals) {
+      return `${name} must equal ${JSON.stringify(constraint.equals)}`;
+    }
+    if (constraint.oneOf && !constraint.oneOf.includes(value as string | number | boolean)) {
+      return `${name} must be one of ${constraint.oneOf.map((v) => JSON.stringify(v)).join(", ")}`;
+    }
+
+    if (
+      constraint.prefix !== undefined ||
+      constraint.pathPrefix !== undefined ||
+      pattern !== undefined
+    ) {
+      if (typeof value !== "string") {
+        return `${name} must be a string`;
+      }
+      if (constraint.prefix !== undefined && !value.startsWith(constraint.prefix)) {
+        return `${name} must start with ${constraint.prefix}`;
+      }
+      if (constraint.pathPrefix !== undefined && !ToolPolicy.isWithinPath(value, constraint.pathPrefix)) {
+        return `${name} must be within ${constraint.pathPrefix}`;
+      }
+      if (pattern && !pattern.test(value)) {
+        return `${name} must match ${constraint.pattern}`;
+      }
+    }
+
+    if (constraint.min !== undefined || constraint.max !== undefined) {
+      if (typeof value !== "number") {
+        return `${name} must be a number`;
+      }
+      if (constraint.min !== undefined && value < constraint.min) {
+        return `${name} must be at least ${constraint.min}`;
+      }
+      if (constraint.max !== undefined && value > constraint.max) {
+        return `${name} must be at most ${constraint.max}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check that a path stays inside a directory once ".." segments are resolved
+   */
+  private static isWithinPath(value: string, directory: string): boolean {
+    if (!value.startsWith("/")) {
+      return false;
+    }
+    const normalized = posix.normalize(value);
+    const root = directory.endsWith("/") ? directory.slice(0, -1) : directory;
+    return root === "" || normalized === root || normalized.startsWith(`${root}/`);
+  }
+}
@@ -1,31 +1,153 @@
+import { createHash, timingSafeEqual } from "crypto";
 import type { AuthConfig, AuthenticatedUser, UserConfig } from "../types.js";
-import { AuthenticationError } from "../utils/errors.js";
+import type { OAuthTokenStore } from "./tokens.js";
+import { TokenRevocationList } from "./revocation.js";
+import { JwtValidator } from "./jwt.js";
+import { AuthenticationError, InvalidRequestError } from "../utils/errors.js";
 import { logger } from "../utils/logger.js";
 
 /**
- * Static token authentication provider
- * Validates bearer tokens against a static list of configured users
+ * Name given to a user's top-level token
+ */
+const DEFAULT_TOKEN_NAME = "default";
+
+/**
+ * A static token credential, stored only as its SHA-256 digest
+ */
+interface StaticCredential {
+  user: UserConfig;
+  name: string;
+  digest: Buffer;
+  expiresAt?: number;
+}
+
+/**
+ * A link in the token validation chain
+ * Returns the user for tokens it recognizes, null for tokens it does not,
+ * and throws AuthenticationError for tokens it recognizes but rejects
+ */
+export interface TokenValidator {
+  readonly name: string;
+  validate(token: string): AuthenticatedUser | null | Promise<AuthenticatedUser | null>;
+}
+
+/**
+ * Public view of a static credential
+ */
+export interface CredentialInfo {
+  id: string;
+  userId: string;
+  name: string;
+  expiresAt?: string;
+  revoked: boolean;
+}
+
+/**
+ * Token authentication provider
+ * Runs bearer tokens through a validator chain: hashed static credentials of the
+ * configured users first, then tokens issued by the built-in OAuth server, then
+ * any external validators such as JWTs from an identity provider
  */
 export class AuthProvider {
-  private readonly tokenMap: Map<string, UserConfig>;
-  private readonly enabled: boolean;
+  private credentials: StaticCredential[] = [];
+  private revocationList: TokenRevocationList;
+  private validators: TokenValidator[] = [];
+  private enabled: boolean;
 
-  constructor(authConfig: AuthConfig) {
+  constructor(
+    authConfig: AuthConfig,
+    private readonly oauthTokens?: OAuthTokenStore
+  ) {
     this.enabled = authConfig.enabled;
-    this.tokenMap = new Map();
+    this.revocationList = new TokenRevocationList(
+      authConfig.revokedTokens ?? [],
+      authConfig.revocationListPath
+    );
+    this.configure(authConfig);
+    logger.info(`Auth provider initialized`, this.describe(authConfig));
+  }
 
-    // Build token lookup map
+  /**
+   * Replace users, credentials and validators from a new auth config
+   * Everything is built before anything is swapped in, so in-flight requests see
+   * either the old or the new configuration, never a mix.
+   * Runtime revocations are kept when the revocation list path is unchanged
+   */
+  reload(authConfig: AuthConfig): void {
+    this.configure(authConfig);
+    logger.info(`Auth provider reloaded`, this.describe(authConfig));
+    this.revokeInactiveLogins();
+  }
+
+  /**
+   * Build the credential list and validator chain and swap them in
+   * Anything that can throw runs before the swap
+   */
+  private configure(authConfig: AuthConfig): void {
+    // Build credential list - plaintext tokens are hashed and discarded
+    const credentials: StaticCredential[] = [];
+    const seen = new Set<string>();
     for (const user of authConfig.users) {
-      if (this.tokenMap.has(user.token)) {
-        logger.warn(`Duplicate token detected for user ${user.id}`);
+      for (const credential of AuthProvider.buildCredentials(user)) {
+        const hex = credential.digest.toString("hex");
+        if (seen.has(hex)) {
+          logger.warn(`Duplicate token detected for user ${user.id}`);
+        }
+        seen.add(hex);
+        credentials.push(credential);
       }
-      this.tokenMap.set(user.token, user);
     }
 
-    logger.info(`Auth provider initialized`, {
+    const validators: TokenValidator[] = [
+      {
+        name: "static",
+        validate: (token) => this.validateStaticToken(token),
+      },
+    ];
+    if (this.oauthTokens) {
+      const oauthTokens = this.oauthTokens;
+      validators.push({
+        name: "oauth",
+        validate: (token) => {
+          const user = oauthTokens.validateAccessToken(token);
+          if (user && !this.isLoginActive(user)) {
+            logger.warn("OAuth token presented for an inactive user", { userId: user.id, clientId: user.clientId });
+            throw new AuthenticationError("Token revoked");
+          }
+          return user ?? null;
+        },
+      });
+    }
+    if (authConfig.jwt?.enabled) {
+      validators.push(new JwtValidator(authConfig.jwt));
+    }
+
+    let revocationList = this.revocationList;
+    if (revocationList.path === authConfig.revocationListPath) {
+      revocationList.setConfigured(authConfig.revokedTokens ?? []);
+    } else {
+      revocationList = new TokenRevocationList(
+        authConfig.revokedTokens ?? [],
+        authConfig.revocationListPath
+      );
+    }
+
+    this.enabled = authConfig.enabled;
+    this.credentials = credentials;
+    this.validators = validators;
+    this.revocationList = revocationList;
+  }
+
+  /**
+   * Summary of the active auth configuration for logging
+   */
+  private describe(authConfig: AuthConfig): Record<string, unknown> {
+    return {
       enabled: this.enabled,
       userCount: authConfig.users.length,
-    });
+      tokenCount: this.credentials.length,
+      validators: this.validators.map((validator) => validator.name),
+    };
   }
 
   /**
@@ -37,18 +159,213 @@ export class AuthProvider {
 
   /**
    * Validate a bearer token and return the authenticated user
+   * The first validator that recognizes the token decides the outcome
+   */
+  async validateToken(token: string): Promise<AuthenticatedUser> {
+    for (const validator of this.validators) {
+      const user = await validator.validate(token);
+      if (user) {
+        return user;
+      }
+    }
+
+    throw new AuthenticationError("Invalid bearer token");
+  }
+
+  /**
+   * Validate a token against the static credentials
+   */
+  private validateStaticToken(token: string): AuthenticatedUser | null {
+    const credential = this.findCredential(token);
+    if (!credential) {
+      return null;
+    }
+
+    this.assertUsable(credential);
+    return AuthProvider.toAuthenticatedUser(credential);
+  }
+
+  /**
+   * Authenticate a login by email and one of the user's static tokens
+   * Used by the OAuth authorization endpoint - only static users can log in
+   */
+  authenticateCredentials(email: string, token: string): AuthenticatedUser {
+    const credential = this.findCredential(token);
+    if (!credential || credential.user.email.toLowerCase() !== email.trim().toLowerCase()) {
+      throw new AuthenticationError("Invalid email or access key");
+    }
+
+    this.assertUsable(credential);
+    return AuthProvider.toAuthenticatedUser(credential);
+  }
+
+  /**
+   * Revoke a static token by plaintext value, hash or "<userId>/<tokenName>" ID
+   */
+  revokeToken(entry: { token?: string; tokenHash?: string; tokenId?: string }): string {
+    let revoked: string | undefined;
+    if (entry.token) {
+      revoked = `sha256:${AuthProvider.hashToken(entry.token).toString("hex")}`;
+    } else if (entry.tokenHash) {
+      revoked = entry.tokenHash;
+    } else if (entry.tokenId) {
+      revoked = entry.tokenId;
+    }
+
+    if (!revoked) {
+      throw new InvalidRequestError("token, tokenHash or tokenId is required");
+    }
+
+    this.revocationList.revoke(revoked);
+    logger.info("Static token revoked", {
+      tokenId: entry.tokenId,
+      byHash: Boolean(entry.token || entry.tokenHash),
+    });
+    this.revokeInactiveLogins();
+    return revoked;
+  }
+
+  /**
+   * Check that the static credential an OAuth login was made with still exists and is not revoked
    */
-  validateToken(token: string): AuthenticatedUser {
-    const user = this.tokenMap.get(token);
+  isLoginActive(user: AuthenticatedUser): boolean {
+    const credential = this.credentials.find(
+      (candidate) =>
+        candidate.user.id === user.id && (user.tokenName === undefined || candidate.name === user.tokenName)
+    );
+    return credential !== undefined && !this.isRevoked(credential);
+  }
+
+  /**
+   * Return the user an OAuth login was made for as currently configured
+   * Undefined when the login is no longer active
+   */
+  currentLogin(user: AuthenticatedUser): AuthenticatedUser | undefined {
+    if (!this.isLoginActive(user)) {
+      return undefined;
+    }
+    const current = this.findUser(user.id);
+    return current && { ...current, tokenName: user.tokenName };
+  }
+
+  /**
+   * Revoke OAuth codes and tokens of users who were removed or whose login credential was revoked
+   */
+  private revokeInactiveLogins(): void {
+    const revoked = this.oauthTokens?.revokeUsers((user) => !this.isLoginActive(user)) ?? 0;
+    if (revoked > 0) {
+      logger.info("Revoked OAuth tokens of inactive users", { revoked });
+    }
+  }
+
+  /**
+   * List static credentials without their secrets
+   */
+  listCredentials(): CredentialInfo[] {
+    return this.credentials.map((credential) => ({
+      id: AuthProvider.credentialId(credential),
+      userId: credential.user.id,
+      name: credential.name,
+      expiresAt: credential.expiresAt ? new Date(credential.expiresAt).toISOString() : undefined,
+      revoked: this.isRevoked(credential),
+    }));
+  }
+
+  /**
+   * Look up a configured static user by ID
+   */
+  findUser(userId: string): AuthenticatedUser | undefined {
+    const user = this.credentials.find((credential) => credential.user.id === userId)?.user;
     if (!user) {
-      throw new AuthenticationError("Invalid bearer token");
+      return undefined;
     }
+    return { id: user.id, email: user.email, name: user.name, scopes: user.scopes };
+  }
 
+  /**
+   * Find the credential matching a token
+   * Every credential is compared in constant time so timing does not reveal which one matched
+   */
+  private findCredential(token: string): StaticCredential | undefined {
+    const digest = AuthProvider.hashToken(token);
+    let match: StaticCredential | undefined;
+    for (const credential of this.credentials) {
+      if (timingSafeEqual(digest, credential.digest) && !match) {
+        match = credential;
+      }
+    }
+    return match;
+  }
+
+  /**
+   * Reject expired or revoked credentials
+   */
+  private assertUsable(credential: StaticCredential): void {
+    if (credential.expiresAt !== undefined && credential.expiresAt <= Date.now()) {
+      logger.warn("Expired token presented", { tokenId: AuthProvider.credentialId(credential) });
+      throw new AuthenticationError("Token expired");
+    }
+    if (this.isRevoked(credential)) {
+      logger.warn("Revoked token presented", { tokenId: AuthProvider.credentialId(credential) });
+      throw new AuthenticationError("Token revoked");
+    }
+  }
+
+  /**
+   * Check a credential against the revocation list
+   */
+  private isRevoked(credential: StaticCredential): boolean {
+    return this.revocationList.isRevoked(
+      `sha256:${credential.digest.toString("hex")}`,
+      AuthProvider.credentialId(credential)
+    );
+  }
+
+  /**
+   * Build the credentials declared by a user entry
+   */
+  private static buildCredentials(user: UserConfig): StaticCredential[] {
+    const declared = [
+      ...(user.token || user.tokenHash
+        ? [{ name: DEFAULT_TOKEN_NAME, token: user.token, tokenHash: user.tokenHash, expiresAt: user.expiresAt }]
+        : []),
+      ...(user.tokens ?? []),
+    ];
+
+    return declared.map((entry) => ({
+      user,
+      name: entry.name,
+      digest: entry.tokenHash
+        ? Buffer.from(entry.tokenHash.slice("sha256:".length), "hex")
+        : AuthProvider.hashToken(entry.token ?? ""),
+      expiresAt: entry.expiresAt ? Date.parse(entry.expiresAt) : undefined,
+    }));
+  }
+
+  /**
+   * Hash a token with SHA-256
+   */
+  private static hashToken(token: string): Buffer {
+    return createHash("sha256").update(token).digest();
+  }
+
+  /**
+   * Stable identifier of a credential: "<userId>/<tokenName>"
+   */
+  private static credentialId(credential: StaticCredential): string {
+    return `${credential.user.id}/${credential.name}`;
+  }
+
+  /**
+   * Convert a matched credential to the request user context
+   */
+  private static toAuthenticatedUser(credential: StaticCredential): AuthenticatedUser {
     return {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      scopes: user.scopes,
+      id: credential.user.id,
+      email: credential.user.email,
+      name: credential.user.name,
+      scopes: credential.user.scopes,
+      tokenName: credential.name,
     };
   }
 
@@ -0,0 +1,103 @@
+import { existsSync, readFileSync, statSync, writeFileSync } from "fs";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Revocation list for static tokens
+ * Entries are either token hashes ("sha256:<hex>") or token IDs ("<userId>/<tokenName>").
+ * When a file path is configured it is re-read whenever it changes on disk,
+ * so tokens can be cut off without restarting the gateway.
+ */
+export class TokenRevocationList {
+  private configured: Set<string>;
+  private fileEntries: Set<string> = new Set();
+  private fileMtimeMs = 0;
+
+  constructor(entries: string[], readonly path?: string) {
+    this.configured = new Set(entries.map(TokenRevocationList.normalize));
+    this.reloadIfChanged();
+  }
+
+  /**
+   * Check whether a token is revoked by hash or by ID
+   */
+  isRevoked(tokenHash: string, tokenId: string): boolean {
+    this.reloadIfChanged();
+    const hash = TokenRevocationList.normalize(tokenHash);
+    return (
+      this.configured.has(hash) ||
+      this.configured.has(tokenId) ||
+      this.fileEntries.has(hash) ||
+      this.fileEntries.has(tokenId)
+    );
+  }
+
+  /**
+   * Add an entry at runtime, persisting it when a file path is configured
+   */
+  revoke(entry: string): void {
+    const normalized = TokenRevocationList.normalize(entry);
+    this.fileEntries.add(normalized);
+
+    if (!this.path) {
+      logger.warn("Token revoked in memory only - set auth.revocationListPath to persist it");
+      return;
+    }
+
+    try {
+      writeFileSync(this.path, JSON.stringify(Array.from(this.fileEntries), null, 2));
+      this.fileMtimeMs = statSync(this.path).mtimeMs;
+    } catch (error) {
+      logger.error(`Failed to persist revocation list to ${this.path}`, error as Error);
+    }
+  }
+
+  /**
+   * Replace the entries that come from configuration, keeping runtime revocations
+   */
+  setConfigured(entries: string[]): void {
+    this.configured = new Set(entries.map(TokenRevocationList.normalize));
+  }
+
+  /**
+   * Get all revoked entries
+   */
+  list(): string[] {
+    this.reloadIfChanged();
+    return Array.from(new Set([...this.configured, ...this.fileEntries]));
+  }
+
+  /**
+   * Re-read the revocation file if its modification time changed
+   */
+  private reloadIfChanged(): void {
+    if (!this.path || !existsSync(this.path)) {
+      return;
+    }
+
+    try {
+      const mtimeMs = statSync(this.path).mtimeMs;
+      if (mtimeMs === this.fileMtimeMs) {
+        return;
+      }
+      this.fileMtimeMs = mtimeMs;
+
+      const parsed: unknown = JSON.parse(readFileSync(this.path, "utf-8"));
+      if (!Array.isArray(parsed) || !parsed.every((entry) => typeof entry === "string")) {
+        throw new Error("expected a JSON array of strings");
+      }
+
+      this.fileEntries = new Set(parsed.map(TokenRevocationList.normalize));
+      logger.info(`Loaded ${this.fileEntries.size} revoked tokens from ${this.path}`);
+    } catch (error) {
+      // Keep the previous entries rather than un-revoking everything
+      logger.error(`Failed to load revocation list from ${this.path}`, error as Error);
+    }
+  }
+
+  /**
+   * Hash entries compare case-insensitively; token IDs are kept as-is
+   */
+  private static normalize(entry: string): string {
+    return entry.toLowerCase().startsWith("sha256:") ? entry.toLowerCase() : entry;
+  }
+}
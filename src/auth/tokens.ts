@@ -0,0 +1,222 @@
+import { createHash, randomBytes } from "crypto";
+import type { AuthenticatedUser } from "../types.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Authorization code awaiting exchange at the token endpoint
+ */
+export interface AuthorizationCodeRecord {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  scopes: string[];
+  user: AuthenticatedUser;
+  expiresAt: number;
+}
+
+/**
+ * Issued access or refresh token
+ */
+interface IssuedTokenRecord {
+  clientId: string;
+  scopes: string[];
+  user: AuthenticatedUser;
+  expiresAt: number;
+}
+
+/**
+ * Token pair returned from the token endpoint
+ */
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  scopes: string[];
+}
+
+/**
+ * Token lifetimes in seconds
+ */
+export interface TokenLifetimes {
+  accessTokenTtlSeconds: number;
+  refreshTokenTtlSeconds: number;
+  authorizationCodeTtlSeconds: number;
+}
+
+/**
+ * Generate an opaque random token with a recognizable prefix
+ */
+function generateToken(prefix: string): string {
+  return `${prefix}_${randomBytes(32).toString("base64url")}`;
+}
+
+/**
+ * Hash a token for storage - raw tokens are never kept in memory
+ */
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * In-memory store for OAuth authorization codes, access tokens and refresh tokens
+ */
+export class OAuthTokenStore {
+  private codes: Map<string, AuthorizationCodeRecord> = new Map();
+  private accessTokens: Map<string, IssuedTokenRecord> = new Map();
+  private refreshTokens: Map<string, IssuedTokenRecord> = new Map();
+
+  constructor(private readonly lifetimes: TokenLifetimes) {}
+
+  /**
+   * Issue a single-use authorization code
+   */
+  createAuthorizationCode(record: Omit<AuthorizationCodeRecord, "expiresAt">): string {
+    this.pruneExpired();
+    const code = generateToken("gw_code");
+    this.codes.set(hashToken(code), {
+      ...record,
+      expiresAt: Date.now() + this.lifetimes.authorizationCodeTtlSeconds * 1000,
+    });
+    return code;
+  }
+
+  /**
+   * Consume an authorization code - it is removed whether or not it is still valid
+   */
+  consumeAuthorizationCode(code: string): AuthorizationCodeRecord | undefined {
+    const key = hashToken(code);
+    const record = this.codes.get(key);
+    this.codes.delete(key);
+
+    if (!record || record.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    return record;
+  }
+
+  /**
+   * Issue a new access and refresh token pair
+   */
+  issueTokens(clientId: string, user: AuthenticatedUser, scopes: string[]): IssuedTokens {
+    this.pruneExpired();
+    const now = Date.now();
+    const accessToken = generateToken("gw_at");
+    const refreshToken = generateToken("gw_rt");
+
+    this.accessTokens.set(hashToken(accessToken), {
+      clientId,
+      user,
+      scopes,
+      expiresAt: now + this.lifetimes.accessTokenTtlSeconds * 1000,
+    });
+    this.refreshTokens.set(hashToken(refreshToken), {
+      clientId,
+      user,
+      scopes,
+      expiresAt: now + this.lifetimes.refreshTokenTtlSeconds * 1000,
+    });
+
+    logger.debug("Issued OAuth tokens", { clientId, userId: user.id });
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: this.lifetimes.accessTokenTtlSeconds,
+      scopes,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair
+   * Refresh tokens are rotated: the presented token is invalidated.
+   * The new pair is issued to the user currentUser returns for the token's user and
+   * keeps only the scopes that user and the client still hold; tokens it returns
+   * nothing for are discarded instead of rotated
+   */
+  rotateRefreshToken(
+    refreshToken: string,
+    clientId: string,
+    currentUser: (user: AuthenticatedUser) => AuthenticatedUser | undefined,
+    clientScopes?: string[]
+  ): IssuedTokens | undefined {
+    const key = hashToken(refreshToken);
+    const record = this.refreshTokens.get(key);
+    if (!record || record.expiresAt <= Date.now() || record.clientId !== clientId) {
+      return undefined;
+    }
+
+    this.refreshTokens.delete(key);
+    const user = currentUser(record.user);
+    if (!user) {
+      logger.warn("Refresh token presented for an inactive user", { clientId, userId: record.user.id });
+      return undefined;
+    }
+
+    const scopes = record.scopes.filter(
+      (scope) => user.scopes.includes(scope) && (!clientScopes || clientScopes.includes(scope))
+    );
+    return this.issueTokens(record.clientId, user, scopes);
+  }
+
+  /**
+   * Validate an access token and return the user it was issued for
+   */
+  validateAccessToken(accessToken: string): AuthenticatedUser | undefined {
+    const record = this.accessTokens.get(hashToken(accessToken));
+    if (!record || record.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    return {
+      ...record.user,
+      scopes: record.scopes,
+      clientId: record.clientId,
+    };
+  }
+
+  /**
+   * Revoke every code and token issued to a client
+   */
+  revokeClient(clientId: string): number {
+    let revoked = 0;
+    for (const map of [this.codes, this.accessTokens, this.refreshTokens]) {
+      for (const [key, record] of map) {
+        if (record.clientId === clientId) {
+          map.delete(key);
+          revoked++;
+        }
+      }
+    }
+    return revoked;
+  }
+
+  /**
+   * Revoke every code and token issued to a user the predicate matches
+   */
+  revokeUsers(matches: (user: AuthenticatedUser) => boolean): number {
+    let revoked = 0;
+    for (const map of [this.codes, this.accessTokens, this.refreshTokens]) {
+      for (const [key, record] of map) {
+        if (matches(record.user)) {
+          map.delete(key);
+          revoked++;
+        }
+      }
+    }
+    return revoked;
+  }
+
+  /**
+   * Drop expired codes and tokens
+   */
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const map of [this.codes, this.accessTokens, this.refreshTokens]) {
+      for (const [key, record] of map) {
+        if (record.expiresAt <= now) {
+          map.delete(key);
+        }
+      }
+    }
+  }
+}
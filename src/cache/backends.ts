@@ -0,0 +1,158 @@
+import { mkdir, readdir, readFile, rm, unlink, writeFile } from "fs/promises";
+import { join } from "path";
+import { logger } from "../utils/logger.js";
+
+/**
+ * A cached tool result
+ */
+export interface CacheEntry {
+  tool: string;
+  expiresAt: number;
+  value: unknown;
+}
+
+/**
+ * Storage for cached tool results
+ * Keys are opaque hex digests; entries carry their tool so they can be invalidated by tool
+ */
+export interface CacheBackend {
+  get(key: string, tool: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  /**
+   * Remove entries for tools matching the predicate (all entries if omitted), returning the count
+   */
+  invalidate(matches?: (tool: string) => boolean): Promise<number>;
+}
+
+/**
+ * In-memory LRU cache bounded by entry count
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private readonly entries: Map<string, CacheEntry> = new Map();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async invalidate(matches?: (tool: string) => boolean): Promise<number> {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (!matches || matches(entry.tool)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * On-disk cache that survives restarts, one JSON file per entry under a directory per tool
+ * Expired entries are deleted when read and swept at startup
+ */
+export class DiskCacheBackend implements CacheBackend {
+  constructor(private readonly root: string) {
+    void this.sweepExpired();
+  }
+
+  async get(key: string, tool: string): Promise<CacheEntry | undefined> {
+    const path = this.entryPath(tool, key);
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await readFile(path, "utf-8")) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      await unlink(path).catch(() => undefined);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const dir = this.toolDir(entry.tool);
+    try {
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, `${key}.json`), JSON.stringify(entry), { mode: 0o600 });
+    } catch (error) {
+      logger.error(`Failed to write cache entry for ${entry.tool}`, error as Error);
+    }
+  }
+
+  async invalidate(matches?: (tool: string) => boolean): Promise<number> {
+    let removed = 0;
+    for (const dir of await this.toolDirs()) {
+      if (matches && !matches(decodeURIComponent(dir))) {
+        continue;
+      }
+      const files = await readdir(join(this.root, dir)).catch(() => []);
+      removed += files.length;
+      await rm(join(this.root, dir), { recursive: true, force: true });
+    }
+    return removed;
+  }
+
+  private async sweepExpired(): Promise<void> {
+    let swept = 0;
+    for (const dir of await this.toolDirs()) {
+      const files = await readdir(join(this.root, dir)).catch(() => []);
+      for (const file of files) {
+        const path = join(this.root, dir, file);
+        try {
+          const entry = JSON.parse(await readFile(path, "utf-8")) as CacheEntry;
+          if (entry.expiresAt > Date.now()) {
+            continue;
+          }
+        } catch {
+          // Unreadable entries are removed along with expired ones
+        }
+        await unlink(path).catch(() => undefined);
+        swept++;
+      }
+    }
+    if (swept > 0) {
+      logger.info(`Removed ${swept} expired cache entries from ${this.root}`);
+    }
+  }
+
+  private async toolDirs(): Promise<string[]> {
+    try {
+      return await readdir(this.root);
+    } catch {
+      return [];
+    }
+  }
+
+  private toolDir(tool: string): string {
+    return join(this.root, encodeURIComponent(tool));
+  }
+
+  private entryPath(tool: string, key: string): string {
+    return join(this.toolDir(tool), `${key}.json`);
+  }
+}
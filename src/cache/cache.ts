@@ -0,0 +1,131 @@
+import { createHash } from "crypto";
+import type { AggregatedTool, CacheConfig, CacheRule } from "../types.js";
+import { compileGlob } from "../auth/policy.js";
+import { ToolAggregator } from "../pool/aggregator.js";
+import { logger } from "../utils/logger.js";
+import { cacheRequestsTotal } from "../utils/metrics.js";
+import { DiskCacheBackend, MemoryCacheBackend, type CacheBackend } from "./backends.js";
+
+/**
+ * Key under which shared-scope entries are stored instead of a user ID
+ */
+const SHARED_SCOPE = "*";
+
+/**
+ * How a tool's results are cached
+ */
+export interface CachePolicy {
+  ttlMs: number;
+  scope: CacheRule["scope"];
+}
+
+/**
+ * Serialize a value with object keys sorted, so equal arguments produce equal keys
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Opt-in cache for tool call results
+ * A tool is cached when the first matching rule has a positive TTL or, with no matching rule,
+ * when it is annotated readOnlyHint or idempotentHint and cacheAnnotatedTools is on
+ */
+export class ToolResultCache {
+  private readonly backend: CacheBackend;
+  private readonly rules: Array<{ rule: CacheRule; patterns: RegExp[] }>;
+
+  constructor(private readonly config: CacheConfig) {
+    this.backend =
+      config.backend === "disk"
+        ? new DiskCacheBackend(config.diskPath)
+        : new MemoryCacheBackend(config.maxEntries);
+    this.rules = config.rules.map((rule) => ({ rule, patterns: rule.tools.map(compileGlob) }));
+
+    logger.info("Tool result cache initialized", {
+      backend: config.backend,
+      rules: this.rules.length,
+      cacheAnnotatedTools: config.cacheAnnotatedTools,
+    });
+  }
+
+  /**
+   * Get the cache policy for a tool, or undefined if its results are not cached
+   */
+  policyFor(tool: AggregatedTool): CachePolicy | undefined {
+    const match = this.rules.find(({ patterns }) => patterns.some((pattern) => pattern.test(tool.name)));
+    if (match) {
+      return match.rule.ttlMs > 0 ? { ttlMs: match.rule.ttlMs, scope: match.rule.scope } : undefined;
+    }
+
+    const annotations = tool.annotations;
+    if (this.config.cacheAnnotatedTools && (annotations?.readOnlyHint || annotations?.idempotentHint)) {
+      return { ttlMs: this.config.defaultTtlMs, scope: "user" };
+    }
+    return undefined;
+  }
+
+  /**
+   * Build the cache key for a call
+   */
+  static key(tool: string, args: Record<string, unknown>, policy: CachePolicy, userId?: string): string {
+    const scope = policy.scope === "shared" ? SHARED_SCOPE : `user:${userId ?? "anonymous"}`;
+    return createHash("sha256").update(canonicalize([tool, args, scope])).digest("hex");
+  }
+
+  /**
+   * Look up a cached result
+   */
+  async get(tool: string, key: string): Promise<unknown | undefined> {
+    try {
+      const entry = await this.backend.get(key, tool);
+      cacheRequestsTotal.inc({ result: entry ? "hit" : "miss" });
+      return entry?.value;
+    } catch (error) {
+      logger.warn(`Cache lookup failed for ${tool}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a result
+   */
+  async set(tool: string, key: string, value: unknown, policy: CachePolicy): Promise<void> {
+    try {
+      await this.backend.set(key, { tool, expiresAt: Date.now() + policy.ttlMs, value });
+    } catch (error) {
+      logger.warn(`Failed to cache result for ${tool}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Remove cached results for one tool, all tools of one server, or everything
+   * Server entries are matched by name prefix, which works for removed servers and
+   * may also drop entries of a server whose ID extends the given one
+   */
+  async invalidate(filter: { tool?: string; serverId?: string } = {}): Promise<number> {
+    const { tool, serverId } = filter;
+    const removed = await this.backend.invalidate(
+      tool || serverId
+        ? (name) =>
+            (!tool || name === tool) &&
+            (!serverId || ToolAggregator.hasServerPrefix(name, serverId))
+        : undefined
+    );
+    logger.info("Tool result cache invalidated", { tool, serverId, removed });
+    return removed;
+  }
+}
@@ -1,48 +1,351 @@
 import { z } from "zod";
-import { readFileSync, existsSync } from "fs";
+import { readFileSync, existsSync, unwatchFile, watchFile } from "fs";
 import type { GatewayConfig } from "./types.js";
-import { logger } from "./utils/logger.js";
+import { configureRedaction, isSecretKey, logger, registerSecret } from "./utils/logger.js";
 
 /**
  * Zod schema for configuration validation
  */
-const UserConfigSchema = z.object({
-  id: z.string().min(1),
-  email: z.string().email(),
-  name: z.string().min(1),
-  token: z.string().min(1),
-  scopes: z.array(z.string()),
+const TOKEN_HASH_PATTERN = /^sha256:[0-9a-f]{64}$/i;
+
+const UserTokenConfigSchema = z
+  .object({
+    name: z.string().min(1),
+    token: z.string().min(1).optional(),
+    tokenHash: z.string().regex(TOKEN_HASH_PATTERN, "must be sha256:<64 hex chars>").optional(),
+    expiresAt: z.string().datetime({ offset: true }).optional(),
+  })
+  .refine((token) => Boolean(token.token) !== Boolean(token.tokenHash), {
+    message: "exactly one of token or tokenHash is required",
+  });
+
+const UserConfigSchema = z
+  .object({
+    id: z.string().min(1),
+    email: z.string().email(),
+    name: z.string().min(1),
+    token: z.string().min(1).optional(),
+    tokenHash: z.string().regex(TOKEN_HASH_PATTERN, "must be sha256:<64 hex chars>").optional(),
+    expiresAt: z.string().datetime({ offset: true }).optional(),
+    tokens: z.array(UserTokenConfigSchema).optional(),
+    scopes: z.array(z.string()),
+  })
+  .refine((user) => !(user.token && user.tokenHash), {
+    message: "token and tokenHash are mutually exclusive",
+  })
+  .refine((user) => Boolean(user.token || user.tokenHash || user.tokens?.length), {
+    message: "a token, tokenHash or tokens entry is required",
+  });
+
+const SessionConfigSchema = z.object({
+  mode: z.enum(["stateless", "stateful"]).default("stateless"),
+  idleTimeoutMs: z.number().int().positive().default(1800000),
+  maxSessions: z.number().int().positive().default(100),
 });
 
 const ServerConfigSchema = z.object({
   port: z.number().int().positive().default(3000),
   host: z.string().default("0.0.0.0"),
   baseUrl: z.string().url(),
+  sessions: SessionConfigSchema.default({}),
+});
+
+const OAuthClientConfigSchema = z.object({
+  clientId: z.string().min(1),
+  clientName: z.string().optional(),
+  redirectUris: z.array(z.string().url()).min(1),
+  scopes: z.array(z.string()).optional(),
 });
 
+const RateLimitRuleSchema = z.object({
+  requestsPerMinute: z.number().positive(),
+  burst: z.number().int().positive().optional(),
+});
+
+const OAuthConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  accessTokenTtlSeconds: z.number().int().positive().default(3600),
+  refreshTokenTtlSeconds: z.number().int().positive().default(2592000),
+  authorizationCodeTtlSeconds: z.number().int().positive().default(600),
+  clients: z.array(OAuthClientConfigSchema).default([]),
+  dynamicRegistration: z.boolean().default(true),
+  maxRegisteredClients: z.number().int().positive().default(100),
+  clientStorePath: z.string().optional(),
+  // Per client IP; null turns the limit off
+  endpointRateLimit: RateLimitRuleSchema.nullable().default({ requestsPerMinute: 30, burst: 10 }),
+  registrationRateLimit: RateLimitRuleSchema.nullable().default({ requestsPerMinute: 1, burst: 5 }),
+});
+
+const JwtConfigSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    issuer: z.string().min(1),
+    audience: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+    jwksUrl: z.string().url().optional(),
+    jwksPath: z.string().optional(),
+    jwksCacheSeconds: z.number().int().positive().default(600),
+    clockSkewSeconds: z.number().int().nonnegative().default(60),
+    algorithms: z.array(z.string()).default(["RS256", "ES256"]),
+    claims: z
+      .object({
+        id: z.string().default("sub"),
+        email: z.string().default("email"),
+        name: z.string().default("name"),
+        scopes: z.string().default("scope"),
+      })
+      .default({}),
+    defaultScopes: z.array(z.string()).default([]),
+    userIdPrefix: z.string().default("jwt:"),
+  })
+  .refine((jwt) => Boolean(jwt.jwksUrl) !== Boolean(jwt.jwksPath), {
+    message: "exactly one of jwksUrl or jwksPath is required",
+  });
+
 const AuthConfigSchema = z.object({
   enabled: z.boolean().default(true),
   users: z.array(UserConfigSchema).default([]),
+  oauth: OAuthConfigSchema.default({}),
+  jwt: JwtConfigSchema.optional(),
+  revokedTokens: z.array(z.string()).default([]),
+  revocationListPath: z.string().optional(),
+});
+
+const RestartPolicySchema = z.object({
+  enabled: z.boolean().default(true),
+  maxRestarts: z.number().int().nonnegative().default(5),
+  windowMs: z.number().int().positive().default(600000),
+  initialDelayMs: z.number().int().positive().default(1000),
+  maxDelayMs: z.number().int().positive().default(60000),
+});
+
+const ToolTimeoutPolicySchema = z.object({
+  toolCallMs: z.number().int().positive().default(60000),
+  tools: z.record(z.number().int().positive()).optional(),
+  resetOnProgress: z.boolean().default(true),
+  maxTotalMs: z.number().int().positive().optional(),
 });
 
-const McpServerConfigSchema = z.object({
+const ConcurrencyPolicySchema = z.object({
+  maxInFlight: z.number().int().positive().optional(),
+  maxQueue: z.number().int().nonnegative().default(32),
+  queueTimeoutMs: z.number().int().positive().default(30000),
+});
+
+const CircuitBreakerPolicySchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    windowSize: z.number().int().positive().default(20),
+    minimumCalls: z.number().int().positive().default(5),
+    failureRateThreshold: z.number().gt(0).max(1).default(0.5),
+    openDurationMs: z.number().int().positive().default(30000),
+    halfOpenProbes: z.number().int().positive().default(1),
+  })
+  .refine((policy) => policy.minimumCalls <= policy.windowSize, {
+    message: "minimumCalls must not exceed windowSize",
+  });
+
+const ToolManifestEntrySchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  inputSchema: z.object({ type: z.literal("object") }).passthrough().default({ type: "object" }),
+  annotations: z
+    .object({
+      title: z.string().optional(),
+      readOnlyHint: z.boolean().optional(),
+      destructiveHint: z.boolean().optional(),
+      idempotentHint: z.boolean().optional(),
+      openWorldHint: z.boolean().optional(),
+    })
+    .optional(),
+});
+
+const BaseServerConfigSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
   description: z.string().optional(),
+  enabled: z.boolean().default(true),
+  requiredScopes: z.array(z.string()).optional(),
+  restart: RestartPolicySchema.default({}),
+  timeouts: ToolTimeoutPolicySchema.default({}),
+  concurrency: ConcurrencyPolicySchema.default({}),
+  circuitBreaker: CircuitBreakerPolicySchema.default({}),
+  startMode: z.enum(["eager", "lazy"]).default("eager"),
+  idleTimeoutMs: z.number().int().positive().optional(),
+  manifest: z
+    .object({
+      tools: z.array(ToolManifestEntrySchema).default([]),
+    })
+    .optional(),
+});
+
+const StdioServerConfigSchema = BaseServerConfigSchema.extend({
+  transport: z.literal("stdio"),
   command: z.string().min(1),
   args: z.array(z.string()).default([]),
   cwd: z.string().optional(),
   env: z.record(z.string()).optional(),
+});
+
+const RemoteServerConfigSchema = BaseServerConfigSchema.extend({
+  transport: z.enum(["streamable-http", "sse"]),
+  url: z.string().url(),
+  headers: z.record(z.string()).optional(),
+  bearerToken: z.string().optional(),
+});
+
+// Servers configured before remote transports existed have no transport field and are stdio
+const McpServerConfigSchema = z.preprocess(
+  (value) =>
+    value !== null && typeof value === "object" && !("transport" in value)
+      ? { ...value, transport: "stdio" }
+      : value,
+  z.discriminatedUnion("transport", [StdioServerConfigSchema, RemoteServerConfigSchema])
+);
+
+/**
+ * Check that a string compiles as a regular expression
+ */
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const ArgumentValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const ArgumentConstraintSchema = z
+  .object({
+    equals: ArgumentValueSchema.optional(),
+    oneOf: z.array(ArgumentValueSchema).min(1).optional(),
+    prefix: z.string().optional(),
+    pathPrefix: z.string().startsWith("/").optional(),
+    pattern: z
+      .string()
+      .refine(isValidRegExp, { message: "must be a valid regular expression" })
+      .optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+  })
+  .refine((constraint) => Object.values(constraint).some((value) => value !== undefined), {
+    message: "at least one constraint is required",
+  });
+
+const PolicyRuleSchema = z.object({
+  id: z.string().optional(),
+  effect: z.enum(["allow", "deny"]),
+  tools: z.array(z.string().min(1)).min(1),
+  users: z.array(z.string()).optional(),
+  scopes: z.array(z.string()).optional(),
+  actions: z.array(z.enum(["list", "call"])).min(1).default(["list", "call"]),
+  arguments: z.record(ArgumentConstraintSchema).optional(),
+});
+
+const PolicyConfigSchema = z.object({
+  enforceToolScopes: z.boolean().default(true),
+  defaultEffect: z.enum(["allow", "deny"]).default("allow"),
+  rules: z.array(PolicyRuleSchema).default([]),
+});
+
+const AuditConfigSchema = z.object({
   enabled: z.boolean().default(true),
-  requiredScopes: z.array(z.string()).optional(),
+  path: z.string().min(1).default("audit/audit.jsonl"),
+  maxFileBytes: z.number().int().positive().default(10485760),
+  maxFiles: z.number().int().nonnegative().default(5),
+  maxValueLength: z.number().int().positive().default(1000),
+});
+
+const RedactionConfigSchema = z.object({
+  keys: z.array(z.string().min(1)).default([]),
+  patterns: z
+    .array(z.string().refine(isValidRegExp, { message: "must be a valid regular expression" }))
+    .default([]),
+});
+
+const MetricsConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  requireAuth: z.boolean().default(true),
+});
+
+const PoolConfigSchema = z.object({
+  manifestCachePath: z.string().min(1).default("manifests/tools.json"),
+});
+
+const ReloadConfigSchema = z.object({
+  watch: z.boolean().default(false),
+  intervalMs: z.number().int().min(100).default(2000),
+});
+
+const TracingConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  serviceName: z.string().min(1).default("mcp-gateway"),
+  sampleRate: z.number().min(0).max(1).default(1),
+  exporter: z.enum(["otlp", "file"]).default("otlp"),
+  otlpEndpoint: z.string().url().default("http://localhost:4318/v1/traces"),
+  otlpHeaders: z.record(z.string()).default({}),
+  filePath: z.string().min(1).default("traces/traces.jsonl"),
+});
+
+const ToolRateLimitRuleSchema = RateLimitRuleSchema.extend({
+  tools: z.array(z.string().min(1)).min(1),
+  perUser: z.boolean().default(false),
+});
+
+const ServerRateLimitRuleSchema = RateLimitRuleSchema.extend({
+  server: z.string().min(1),
+  perUser: z.boolean().default(false),
+});
+
+const DailyQuotaRuleSchema = z.object({
+  id: z.string().min(1).optional(),
+  tools: z.array(z.string().min(1)).min(1).default(["*"]),
+  limit: z.number().int().positive(),
+});
+
+const RateLimitConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  // null turns off the per-user limit while keeping tool and server limits
+  perUser: RateLimitRuleSchema.nullable().default({ requestsPerMinute: 120, burst: 60 }),
+  tools: z.array(ToolRateLimitRuleSchema).default([]),
+  servers: z.array(ServerRateLimitRuleSchema).default([]),
+  dailyQuotas: z.array(DailyQuotaRuleSchema).default([]),
+  quotaStorePath: z.string().min(1).default("quotas/quotas.json"),
+});
+
+const CacheRuleSchema = z.object({
+  tools: z.array(z.string().min(1)).min(1),
+  ttlMs: z.number().int().nonnegative(),
+  scope: z.enum(["user", "shared"]).default("user"),
+});
+
+const CacheConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  backend: z.enum(["memory", "disk"]).default("memory"),
+  maxEntries: z.number().int().positive().default(1000),
+  diskPath: z.string().min(1).default("cache"),
+  cacheAnnotatedTools: z.boolean().default(true),
+  defaultTtlMs: z.number().int().positive().default(300000),
+  rules: z.array(CacheRuleSchema).default([]),
 });
 
 const GatewayConfigSchema = z.object({
   server: ServerConfigSchema,
   auth: AuthConfigSchema,
   mcpServers: z.array(McpServerConfigSchema).default([]),
+  policies: PolicyConfigSchema.default({}),
+  audit: AuditConfigSchema.default({}),
+  redaction: RedactionConfigSchema.default({}),
+  metrics: MetricsConfigSchema.default({}),
+  tracing: TracingConfigSchema.default({}),
+  rateLimits: RateLimitConfigSchema.default({}),
+  cache: CacheConfigSchema.default({}),
+  reload: ReloadConfigSchema.default({}),
+  pool: PoolConfigSchema.default({}),
 });
 
+
 /**
  * Resolve environment variable references in config values
  * Supports ${VAR_NAME} syntax
@@ -56,6 +359,8 @@ function resolveEnvVars(obj: unknown): unknown {
         logger.warn(`Environment variable ${varName} not set, using empty string`);
         return "";
       }
+      // Values pulled in from the environment are masked in logs and errors
+      registerSecret(value);
       return value;
     });
   }
@@ -75,6 +380,29 @@ function resolveEnvVars(obj: unknown): unknown {
   return obj;
 }
 
+/**
+ * Register every string configured under a secret key name (tokens, passwords, ...)
+ */
+function registerConfigSecrets(obj: unknown, key?: string): void {
+  if (typeof obj === "string") {
+    if (key !== undefined && isSecretKey(key)) {
+      registerSecret(obj);
+    }
+    return;
+  }
+
+  if (Array.isArray(obj)) {
+    obj.forEach((item) => registerConfigSecrets(item, key));
+    return;
+  }
+
+  if (obj !== null && typeof obj === "object") {
+    for (const [childKey, value] of Object.entries(obj)) {
+      registerConfigSecrets(value, childKey);
+    }
+  }
+}
+
 /**
  * Load configuration from file
  */
@@ -119,23 +447,48 @@ function loadConfigFromEnv(): Partial<GatewayConfig> {
   return config;
 }
 
+/**
+ * Path of the config file loadConfig reads, or undefined when config comes from the environment
+ * Priority 1: CONFIG_PATH environment variable
+ * Priority 2: ./config.json in working directory
+ */
+export function getConfigPath(): string | undefined {
+  const configPath = process.env.CONFIG_PATH;
+  if (configPath && existsSync(configPath)) {
+    return configPath;
+  }
+  if (existsSync("./config.json")) {
+    return "./config.json";
+  }
+  return undefined;
+}
+
+/**
+ * Call onChange whenever the config file's modification time changes
+ * The file is polled, so editors that replace it by renaming are picked up too.
+ * Returns a function that stops watching
+ */
+export function watchConfig(path: string, intervalMs: number, onChange: () => void): () => void {
+  const listener = (current: { mtimeMs: number }, previous: { mtimeMs: number }): void => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      onChange();
+    }
+  };
+  watchFile(path, { interval: intervalMs, persistent: false }, listener);
+  return () => unwatchFile(path, listener);
+}
+
 /**
  * Load and validate gateway configuration
  */
 export function loadConfig(): GatewayConfig {
   let rawConfig: unknown = {};
 
-  // Priority 1: CONFIG_PATH environment variable
-  const configPath = process.env.CONFIG_PATH;
-  if (configPath && existsSync(configPath)) {
-    logger.info(`Loading config from CONFIG_PATH: ${configPath}`);
+  const configPath = getConfigPath();
+  if (configPath) {
+    logger.info(`Loading config from ${configPath}`);
     rawConfig = loadConfigFromFile(configPath);
   }
-  // Priority 2: ./config.json in working directory
-  else if (existsSync("./config.json")) {
-    logger.info("Loading config from ./config.json");
-    rawConfig = loadConfigFromFile("./config.json");
-  }
   // Priority 3: Environment variables only
   else {
     logger.info("Loading config from environment variables");
@@ -168,6 +521,9 @@ export function loadConfig(): GatewayConfig {
     throw new Error(`Invalid configuration: ${errors}`);
   }
 
+  configureRedaction(result.data.redaction);
+  registerConfigSecrets(result.data);
+
   return result.data;
 }
 
@@ -1,6 +1,9 @@
 import { loadConfig } from "./config.js";
 import { ServerPoolManager } from "./pool/manager.js";
 import { createApp } from "./server/transport.js";
+import { ConfigReloader } from "./server/reload.js";
+import { AuditLog } from "./audit/log.js";
+import { tracer } from "./utils/tracing.js";
 import { logger } from "./utils/logger.js";
 
 /**
@@ -24,11 +27,38 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  // Distributed tracing (spans are only exported when enabled)
+  if (config.tracing) {
+    tracer.configure(config.tracing);
+  }
+
+  // Tool invocation audit trail (optional)
+  const auditLog = config.audit?.enabled ? new AuditLog(config.audit) : undefined;
+
   // Initialize server pool (don't start servers yet)
-  const poolManager = new ServerPoolManager(config.mcpServers);
+  const poolManager = new ServerPoolManager(
+    config.mcpServers,
+    config.policies,
+    auditLog,
+    config.cache,
+    config.pool
+  );
+
+  // Config hot reload (SIGHUP, or file changes when reload.watch is on)
+  const reloader = new ConfigReloader(config);
 
   // Create Express app
-  const app = createApp(config, poolManager);
+  const { app, close: closeApp } = createApp(config, poolManager, auditLog, reloader);
+
+  // Servers are reconciled after auth, so a rejected auth config leaves them untouched
+  reloader.addHandler({
+    name: "servers",
+    sections: ["mcpServers"],
+    apply: async (next) => {
+      await poolManager.reconfigure(next.mcpServers);
+    },
+  });
+  reloader.start();
 
   // Start HTTP server FIRST so health checks work immediately
   const server = app.listen(config.server.port, config.server.host, () => {
@@ -57,12 +87,20 @@ async function main(): Promise<void> {
   // Graceful shutdown
   const shutdown = async (signal: string): Promise<void> => {
     logger.info(`Received ${signal}, shutting down gracefully`);
+    reloader.stop();
 
     // Stop accepting new connections
     server.close(() => {
       logger.info("HTTP server closed");
     });
 
+    // Close sessions and flush state held by the HTTP layer, such as quota counters
+    try {
+      await closeApp();
+    } catch (error) {
+      logger.error("Error closing HTTP layer", error as Error);
+    }
+
     // Stop all MCP servers
     try {
       await poolManager.stopAll();
@@ -71,6 +109,12 @@ async function main(): Promise<void> {
       logger.error("Error stopping MCP servers", error as Error);
     }
 
+    // Write queued audit entries
+    await auditLog?.close();
+
+    // Export any buffered spans
+    await tracer.shutdown();
+
     process.exit(0);
   };
 
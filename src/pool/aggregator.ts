@@ -1,5 +1,5 @@
 import type { AggregatedTool, McpTool } from "../types.js";
-import type { LocalServerClient } from "./client.js";
+import type { ServerClient } from "./client.js";
 import { ToolNotFoundError } from "../utils/errors.js";
 import { logger } from "../utils/logger.js";
 
@@ -37,13 +37,22 @@ export class ToolAggregator {
   }
 
   /**
-   * Aggregate tools from all connected servers
+   * Check whether a namespaced tool name could belong to a server, by prefix
+   * Server IDs may contain the separator, so tools of a server "a_b" also match server "a"
    */
-  aggregate(servers: Map<string, LocalServerClient>): AggregatedTool[] {
+  static hasServerPrefix(namespacedName: string, serverId: string): boolean {
+    return namespacedName.startsWith(`${serverId}${NAMESPACE_SEPARATOR}`);
+  }
+
+  /**
+   * Aggregate tools from all connected and idle servers
+   */
+  aggregate(servers: Map<string, ServerClient>): AggregatedTool[] {
     this.aggregatedTools.clear();
 
     for (const [serverId, client] of servers) {
-      if (!client.connected) {
+      // Idle servers are listed from their last known tools and started on first call
+      if (!client.connected && !client.idle) {
         logger.warn(`Skipping disconnected server ${serverId} during aggregation`);
         continue;
       }
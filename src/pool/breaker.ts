@@ -0,0 +1,168 @@
+import type { CircuitBreakerPolicy, CircuitState } from "../types.js";
+import { CircuitOpenError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+import { circuitBreakerState } from "../utils/metrics.js";
+
+/**
+ * Default circuit breaker policy when none is configured
+ */
+const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+  enabled: true,
+  windowSize: 20,
+  minimumCalls: 5,
+  failureRateThreshold: 0.5,
+  openDurationMs: 30000,
+  halfOpenProbes: 1,
+};
+
+// Gauge values per state
+const STATE_VALUES: Record<CircuitState, number> = { closed: 0, half_open: 1, open: 2 };
+
+/**
+ * Circuit breaker for one downstream server
+ * Closed: calls flow and outcomes are tracked over the last windowSize calls.
+ * Open: calls fail fast until openDurationMs has passed.
+ * Half-open: up to halfOpenProbes calls are let through; if they all succeed the
+ * circuit closes, and any failure reopens it
+ */
+export class CircuitBreaker {
+  private readonly policy: CircuitBreakerPolicy;
+  private _state: CircuitState = "closed";
+  private outcomes: boolean[] = [];
+  private openedAt = 0;
+  private probesInFlight = 0;
+  private probeSuccesses = 0;
+  private _lastFailure?: string;
+
+  constructor(
+    private readonly serverId: string,
+    policy?: CircuitBreakerPolicy
+  ) {
+    this.policy = policy ?? DEFAULT_CIRCUIT_BREAKER_POLICY;
+    circuitBreakerState.set({ server: serverId }, STATE_VALUES.closed);
+  }
+
+  /**
+   * Current state, moving from open to half-open once the open period has passed
+   */
+  get state(): CircuitState {
+    if (this._state === "open" && Date.now() - this.openedAt >= this.policy.openDurationMs) {
+      this.transition("half_open");
+    }
+    return this._state;
+  }
+
+  /**
+   * Failure that last counted against the circuit, if any
+   */
+  get lastFailure(): string | undefined {
+    return this._lastFailure;
+  }
+
+  /**
+   * Admit a call, throwing CircuitOpenError when it must fail fast
+   * Every admitted call must be followed by exactly one of
+   * recordSuccess, recordFailure or recordIgnored
+   */
+  acquire(): void {
+    if (!this.policy.enabled) {
+      return;
+    }
+
+    const state = this.state;
+    if (state === "open") {
+      throw new CircuitOpenError(
+        this.serverId,
+        this.openedAt + this.policy.openDurationMs - Date.now()
+      );
+    }
+    if (state === "half_open") {
+      if (this.probesInFlight + this.probeSuccesses >= this.policy.halfOpenProbes) {
+        throw new CircuitOpenError(this.serverId, 0);
+      }
+      this.probesInFlight++;
+    }
+  }
+
+  /**
+   * Record a successful call
+   */
+  recordSuccess(): void {
+    if (!this.policy.enabled) {
+      return;
+    }
+
+    if (this._state === "half_open") {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.probeSuccesses++;
+      if (this.probeSuccesses >= this.policy.halfOpenProbes) {
+        this.transition("closed");
+      }
+      return;
+    }
+    this.track(true);
+  }
+
+  /**
+   * Record a failed call (execution error or timeout)
+   */
+  recordFailure(error: Error): void {
+    if (!this.policy.enabled) {
+      return;
+    }
+
+    this._lastFailure = error.message;
+    if (this._state === "half_open") {
+      this.transition("open");
+      return;
+    }
+    this.track(false);
+
+    const failures = this.outcomes.filter((ok) => !ok).length;
+    if (
+      this._state === "closed" &&
+      this.outcomes.length >= this.policy.minimumCalls &&
+      failures / this.outcomes.length >= this.policy.failureRateThreshold
+    ) {
+      this.transition("open");
+    }
+  }
+
+  /**
+   * Release an admitted call whose outcome says nothing about server health, e.g. a cancellation
+   */
+  recordIgnored(): void {
+    if (this._state === "half_open") {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+    }
+  }
+
+  private track(ok: boolean): void {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.policy.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this._state;
+    this._state = state;
+    this.outcomes = [];
+    this.probesInFlight = 0;
+    this.probeSuccesses = 0;
+    if (state === "open") {
+      this.openedAt = Date.now();
+    }
+    circuitBreakerState.set({ server: this.serverId }, STATE_VALUES[state]);
+
+    const message = `Circuit breaker for server ${this.serverId} ${previous} -> ${state}`;
+    if (state === "open") {
+      logger.warn(message, {
+        lastFailure: this._lastFailure,
+        openDurationMs: this.policy.openDurationMs,
+      });
+    } else {
+      logger.info(message);
+    }
+  }
+}
@@ -1,12 +1,44 @@
+import { EventEmitter } from "events";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
-import type { McpServerConfig, McpTool } from "../types.js";
-import { ServerConnectionError, ServerExecutionError } from "../utils/errors.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  ErrorCode,
+  McpError,
+  ToolListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  PromptListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type {
+  McpServerConfig,
+  StdioServerConfig,
+  McpTool,
+  McpResource,
+  McpResourceTemplate,
+  McpPrompt,
+  ToolCallOptions,
+  CircuitState,
+} from "../types.js";
+import {
+  ServerConnectionError,
+  ServerExecutionError,
+  ToolTimeoutError,
+  RequestCancelledError,
+  ResourceReadError,
+  PromptGetError,
+} from "../utils/errors.js";
 import { logger } from "../utils/logger.js";
+import { serverConnectsTotal, serverDisconnectsTotal, serverUp } from "../utils/metrics.js";
+import { formatTraceparent, tracer } from "../utils/tracing.js";
+import { CircuitBreaker } from "./breaker.js";
+import { ServerDiagnostics } from "./diagnostics.js";
 
 // Connection timeout in milliseconds (30 seconds)
 const CONNECTION_TIMEOUT_MS = 30000;
 
+// Tool call timeout when the server config has none (60 seconds)
+const DEFAULT_TOOL_CALL_TIMEOUT_MS = 60000;
+
 /**
  * Helper to add timeout to a promise
  */
@@ -20,15 +52,42 @@ function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promi
 }
 
 /**
- * Client wrapper for a local MCP server connection via stdio
+ * Events emitted by a server client
+ */
+export interface ServerClientEvents {
+  connected: [];
+  disconnected: [error: Error | undefined];
+  capabilitiesChanged: [];
+}
+
+/**
+ * Client wrapper for a downstream MCP server connection
+ * Subclasses supply the transport; everything above it is shared
  */
-export class LocalServerClient {
+export abstract class ServerClient extends EventEmitter<ServerClientEvents> {
   private client: Client | null = null;
-  private transport: StdioClientTransport | null = null;
+  private transport: Transport | null = null;
   private tools: McpTool[] = [];
+  private resources: McpResource[] = [];
+  private resourceTemplates: McpResourceTemplate[] = [];
+  private prompts: McpPrompt[] = [];
   private _connected = false;
+  private _idle = false;
+  private knownTools: McpTool[] = [];
+  private knownResources: McpResource[] = [];
+  private knownResourceTemplates: McpResourceTemplate[] = [];
+  private knownPrompts: McpPrompt[] = [];
+  private closing = false;
+  private _lastError?: string;
+  private readonly breaker: CircuitBreaker;
 
-  constructor(private readonly config: McpServerConfig) {}
+  constructor(
+    protected readonly config: McpServerConfig,
+    readonly diagnostics: ServerDiagnostics = new ServerDiagnostics(config.id)
+  ) {
+    super();
+    this.breaker = new CircuitBreaker(config.id, config.circuitBreaker);
+  }
 
   /**
    * Get server ID
@@ -58,6 +117,42 @@ export class LocalServerClient {
     return this._connected;
   }
 
+  /**
+   * Check if the server is stopped until it is next needed
+   * An idle server keeps its last known tools, resources and prompts listed
+   */
+  get idle(): boolean {
+    return this._idle;
+  }
+
+  /**
+   * Get the last connection or transport error, if any
+   */
+  get lastError(): string | undefined {
+    return this._lastError;
+  }
+
+  /**
+   * Get the circuit breaker state
+   */
+  get circuitState(): CircuitState {
+    return this.breaker.state;
+  }
+
+  /**
+   * Get the failure that last counted against the circuit breaker, if any
+   */
+  get lastCallFailure(): string | undefined {
+    return this.breaker.lastFailure;
+  }
+
+  /**
+   * Get the server configuration
+   */
+  get serverConfig(): McpServerConfig {
+    return this.config;
+  }
+
   /**
    * Get required scopes for this server
    */
@@ -66,47 +161,64 @@ export class LocalServerClient {
   }
 
   /**
-   * Connect to the local MCP server
+   * Create the transport for a new connection
+   */
+  protected abstract createTransport(): Transport;
+
+  /**
+   * Describe the connection target for logging
+   */
+  protected abstract describeTarget(): Record<string, unknown>;
+
+  /**
+   * Message reported when the connection drops without an error
+   */
+  protected abstract get closedMessage(): string;
+
+  /**
+   * Connect to the MCP server
    */
   async connect(): Promise<void> {
     if (this._connected) {
       logger.warn(`Server ${this.id} already connected`);
       return;
     }
+    this._idle = false;
 
     try {
-      logger.info(`Connecting to server ${this.id}`, {
-        command: this.config.command,
-        args: this.config.args,
-      });
-
-      // Resolve environment variables
-      const env: Record<string, string> = {
-        ...process.env as Record<string, string>,
-      };
-      if (this.config.env) {
-        for (const [key, value] of Object.entries(this.config.env)) {
-          env[key] = value;
-        }
-      }
+      logger.info(`Connecting to server ${this.id}`, this.describeTarget());
 
       // Create transport
-      this.transport = new StdioClientTransport({
-        command: this.config.command,
-        args: this.config.args,
-        cwd: this.config.cwd,
-        env,
-      });
+      this.transport = this.createTransport();
 
       // Create client
-      this.client = new Client({
+      const client = new Client({
         name: `gateway-client-${this.id}`,
         version: "1.0.0",
       });
+      this.client = client;
+
+      // Detect the child process exiting underneath us
+      client.onclose = () => this.handleClose(client);
+      client.onerror = (error) => {
+        this._lastError = error.message;
+        logger.warn(`Transport error on server ${this.id}`, { error: error.message });
+      };
+
+      // Re-fetch capabilities when the server reports its lists changed
+      client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+        this.handleListChanged("tools")
+      );
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+        this.handleListChanged("resources")
+      );
+      client.setNotificationHandler(PromptListChangedNotificationSchema, () =>
+        this.handleListChanged("prompts")
+      );
 
       // Connect with timeout
       await withTimeout(
-        this.client.connect(this.transport),
+        client.connect(this.transport),
         CONNECTION_TIMEOUT_MS,
         `Connection to server ${this.id} timed out`
       );
@@ -119,15 +231,107 @@ export class LocalServerClient {
         `Fetching capabilities from ${this.id} timed out`
       );
 
+      this._lastError = undefined;
+      serverUp.set({ server: this.id }, 1);
+      serverConnectsTotal.inc({ server: this.id, result: "success" });
       logger.info(`Connected to server ${this.id}`, { toolCount: this.tools.length });
+      this.diagnostics.record("connect");
+      this.emit("connected");
     } catch (error) {
       this._connected = false;
       const err = error instanceof Error ? error : new Error(String(error));
-      logger.error(`Failed to connect to server ${this.id}`, err);
+      this._lastError = this.withLastOutput(err.message);
+      this.diagnostics.record("connect_failed", { message: this._lastError });
+      serverUp.set({ server: this.id }, 0);
+      serverConnectsTotal.inc({ server: this.id, result: "failure" });
+      logger.error(`Failed to connect to server ${this.id}`, err, {
+        lastStderr: this.diagnostics.stderrTail.at(-1),
+      });
+      await this.cleanup();
       throw new ServerConnectionError(this.id, err);
     }
   }
 
+  /**
+   * Handle the underlying transport closing
+   * Only reported as a disconnect when we did not initiate the close
+   */
+  private handleClose(client: Client): void {
+    if (this.closing || this.client !== client) {
+      return;
+    }
+
+    const wasConnected = this._connected;
+    this._connected = false;
+    this.client = null;
+    this.transport = null;
+    this.tools = [];
+    this.resources = [];
+    this.resourceTemplates = [];
+    this.prompts = [];
+
+    if (wasConnected) {
+      serverUp.set({ server: this.id }, 0);
+      serverDisconnectsTotal.inc({ server: this.id });
+      const error = new Error(this.withLastOutput(this._lastError ?? this.closedMessage));
+      this._lastError = error.message;
+      this.diagnostics.record("crash", { message: error.message });
+      logger.warn(`Server ${this.id} disconnected unexpectedly`, { error: error.message });
+      this.emit("disconnected", error);
+    }
+  }
+
+  /**
+   * Append the last line the server wrote to stderr, which usually says why it failed
+   */
+  private withLastOutput(message: string): string {
+    const lastLine = this.diagnostics.stderrTail.at(-1);
+    return lastLine ? `${message} (last stderr: ${lastLine})` : message;
+  }
+
+  /**
+   * Handle a list_changed notification from the server
+   */
+  private async handleListChanged(kind: "tools" | "resources" | "prompts"): Promise<void> {
+    if (!this._connected) {
+      return;
+    }
+
+    logger.info(`Server ${this.id} reported ${kind} list changed`);
+    try {
+      await this.refreshCapabilities();
+      this.emit("capabilitiesChanged");
+    } catch {
+      // refreshCapabilities() already logged the failure
+    }
+  }
+
+  /**
+   * Close a partially established connection without reporting a disconnect
+   */
+  private async cleanup(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    this.transport = null;
+    this.tools = [];
+    this.resources = [];
+    this.resourceTemplates = [];
+    this.prompts = [];
+
+    if (!client) {
+      return;
+    }
+
+    this.closing = true;
+    try {
+      await client.close();
+    } catch {
+      // Best effort - the process may already be gone
+    } finally {
+      this.closing = false;
+    }
+  }
+
   /**
    * Refresh cached capabilities from the server
    */
@@ -142,9 +346,48 @@ export class LocalServerClient {
         name: tool.name,
         description: tool.description,
         inputSchema: tool.inputSchema as McpTool["inputSchema"],
+        annotations: tool.annotations,
       }));
+      this.knownTools = this.tools;
+
+      // Resources are optional - only query servers that advertise them
+      if (this.client.getServerCapabilities()?.resources) {
+        const resourceResult = await this.client.listResources();
+        this.resources = resourceResult.resources.map((resource) => ({
+          uri: resource.uri,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType,
+        }));
+
+        const templateResult = await this.client.listResourceTemplates();
+        this.resourceTemplates = templateResult.resourceTemplates.map((template) => ({
+          uriTemplate: template.uriTemplate,
+          name: template.name,
+          description: template.description,
+          mimeType: template.mimeType,
+        }));
+      } else {
+        this.resources = [];
+        this.resourceTemplates = [];
+      }
+
+      if (this.client.getServerCapabilities()?.prompts) {
+        const promptResult = await this.client.listPrompts();
+        this.prompts = promptResult.prompts.map((prompt) => ({
+          name: prompt.name,
+          description: prompt.description,
+          arguments: prompt.arguments,
+        }));
+      } else {
+        this.prompts = [];
+      }
+
       logger.debug(`Refreshed capabilities for server ${this.id}`, {
         toolCount: this.tools.length,
+        resourceCount: this.resources.length,
+        resourceTemplateCount: this.resourceTemplates.length,
+        promptCount: this.prompts.length,
       });
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
@@ -154,39 +397,198 @@ export class LocalServerClient {
   }
 
   /**
-   * Get cached tools
+   * Get cached tools, or the last known tools while idle
    */
   getTools(): McpTool[] {
-    return [...this.tools];
+    return [...(this._idle ? this.knownTools : this.tools)];
+  }
+
+  /**
+   * Seed the tools listed while idle, before the server has reported its own
+   */
+  setKnownTools(tools: McpTool[]): void {
+    this.knownTools = [...tools];
+  }
+
+  /**
+   * Disconnect and stay stopped until the next connect, keeping the last known capabilities listed
+   * The client reports idle from the moment this is called, before the disconnect completes
+   */
+  async park(): Promise<void> {
+    this._idle = true;
+    if (this._connected) {
+      this.knownResources = this.resources;
+      this.knownResourceTemplates = this.resourceTemplates;
+      this.knownPrompts = this.prompts;
+    }
+    await this.disconnect();
+  }
+
+  /**
+   * Get cached resources, or the last known resources while idle
+   */
+  getResources(): McpResource[] {
+    return [...(this._idle ? this.knownResources : this.resources)];
+  }
+
+  /**
+   * Get cached resource templates, or the last known templates while idle
+   */
+  getResourceTemplates(): McpResourceTemplate[] {
+    return [...(this._idle ? this.knownResourceTemplates : this.resourceTemplates)];
+  }
+
+  /**
+   * Get cached prompts, or the last known prompts while idle
+   */
+  getPrompts(): McpPrompt[] {
+    return [...(this._idle ? this.knownPrompts : this.prompts)];
+  }
+
+  /**
+   * Get the timeout for a tool, preferring a per-tool override
+   */
+  getToolTimeout(name: string): number {
+    const timeouts = this.config.timeouts;
+    return timeouts?.tools?.[name] ?? timeouts?.toolCallMs ?? DEFAULT_TOOL_CALL_TIMEOUT_MS;
   }
 
   /**
    * Call a tool on this server
+   * Aborting options.signal cancels the downstream request with notifications/cancelled,
+   * and downstream progress notifications are passed to options.onProgress
    */
-  async callTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    options: ToolCallOptions = {}
+  ): Promise<unknown> {
     if (!this.client || !this._connected) {
       throw new ServerConnectionError(this.id);
     }
 
+    // Fails fast with CircuitOpenError while the server keeps failing
+    this.breaker.acquire();
+
+    const client = this.client;
+    const timeout = this.getToolTimeout(name);
     try {
-      logger.debug(`Calling tool ${name} on server ${this.id}`, { args });
-      const result = await this.client.callTool({ name, arguments: args });
+      logger.debug(`Calling tool ${name} on server ${this.id}`, { args, timeout });
+      // The trace context is passed downstream in _meta so traced servers can join the trace
+      const result = await tracer.withSpan(
+        "mcp.downstream.call_tool",
+        { "mcp.server": this.id, "mcp.tool": name },
+        (span) =>
+          client.callTool(
+            {
+              name,
+              arguments: args,
+              _meta: { traceparent: formatTraceparent(span) },
+            },
+            undefined,
+            {
+              signal: options.signal,
+              timeout,
+              maxTotalTimeout: this.config.timeouts?.maxTotalMs,
+              resetTimeoutOnProgress: this.config.timeouts?.resetOnProgress ?? true,
+              // Always request progress so long-running calls can keep their timeout alive
+              onprogress: (progress) => options.onProgress?.(progress),
+            }
+          ),
+        "client"
+      );
+      this.breaker.recordSuccess();
       return result;
     } catch (error) {
+      if (options.signal?.aborted) {
+        this.breaker.recordIgnored();
+        const reason = options.signal.reason;
+        logger.info(`Tool call ${name} on server ${this.id} cancelled`, {
+          reason: reason instanceof Error ? reason.message : String(reason),
+        });
+        throw new RequestCancelledError(
+          this.id,
+          name,
+          reason instanceof Error ? reason.message : undefined
+        );
+      }
+      if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+        logger.warn(`Tool call ${name} on server ${this.id} timed out`, { timeout });
+        const timeoutError = new ToolTimeoutError(this.id, name, timeout);
+        this.breaker.recordFailure(timeoutError);
+        throw timeoutError;
+      }
+
       const err = error instanceof Error ? error : new Error(String(error));
+      if (ServerClient.isClientFault(err)) {
+        this.breaker.recordIgnored();
+      } else {
+        this.breaker.recordFailure(err);
+      }
       logger.error(`Failed to call tool ${name} on server ${this.id}`, err);
       throw new ServerExecutionError(this.id, name, err);
     }
   }
 
+  /**
+   * Whether an error blames the request rather than the server,
+   * in which case it does not count against the circuit breaker
+   */
+  private static isClientFault(error: Error): boolean {
+    return (
+      error instanceof McpError &&
+      [ErrorCode.InvalidParams, ErrorCode.InvalidRequest, ErrorCode.MethodNotFound].includes(error.code)
+    );
+  }
+
+  /**
+   * Read a resource from this server
+   */
+  async readResource(uri: string): Promise<unknown> {
+    if (!this.client || !this._connected) {
+      throw new ServerConnectionError(this.id);
+    }
+
+    try {
+      logger.debug(`Reading resource ${uri} on server ${this.id}`);
+      return await this.client.readResource({ uri });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error(`Failed to read resource ${uri} on server ${this.id}`, err);
+      throw new ResourceReadError(this.id, uri, err);
+    }
+  }
+
+  /**
+   * Get a prompt from this server
+   */
+  async getPrompt(name: string, args?: Record<string, string>): Promise<unknown> {
+    if (!this.client || !this._connected) {
+      throw new ServerConnectionError(this.id);
+    }
+
+    try {
+      logger.debug(`Getting prompt ${name} on server ${this.id}`);
+      return await this.client.getPrompt({ name, arguments: args });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error(`Failed to get prompt ${name} on server ${this.id}`, err);
+      throw new PromptGetError(this.id, name, err);
+    }
+  }
+
   /**
    * Disconnect from the server
    */
   async disconnect(): Promise<void> {
     if (!this._connected) {
+      // Abort a connection attempt still in progress
+      await this.cleanup();
       return;
     }
 
+    this.closing = true;
+    this.diagnostics.record("stop");
     try {
       logger.info(`Disconnecting from server ${this.id}`);
 
@@ -198,16 +600,104 @@ export class LocalServerClient {
       this.client = null;
       this.transport = null;
       this.tools = [];
+      this.resources = [];
+      this.resourceTemplates = [];
+      this.prompts = [];
 
+      serverUp.set({ server: this.id }, 0);
       logger.info(`Disconnected from server ${this.id}`);
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       logger.error(`Error disconnecting from server ${this.id}`, err);
       // Force cleanup even on error
+      serverUp.set({ server: this.id }, 0);
       this._connected = false;
       this.client = null;
       this.transport = null;
       this.tools = [];
+      this.resources = [];
+      this.resourceTemplates = [];
+      this.prompts = [];
+    } finally {
+      this.closing = false;
+    }
+  }
+}
+
+/**
+ * Stdio transport that reports when its child process has been spawned
+ */
+class SpawnReportingStdioTransport extends StdioClientTransport {
+  onspawn?: () => void;
+
+  override async start(): Promise<void> {
+    await super.start();
+    this.onspawn?.();
+  }
+}
+
+/**
+ * Client for a local MCP server spawned as a child process and spoken to over stdio
+ */
+export class LocalServerClient extends ServerClient {
+  constructor(
+    protected readonly config: StdioServerConfig,
+    diagnostics?: ServerDiagnostics
+  ) {
+    super(config, diagnostics);
+  }
+
+  protected createTransport(): Transport {
+    // Resolve environment variables
+    const env: Record<string, string> = {
+      ...process.env as Record<string, string>,
+    };
+    if (this.config.env) {
+      for (const [key, value] of Object.entries(this.config.env)) {
+        env[key] = value;
+      }
     }
+
+    const transport = new SpawnReportingStdioTransport({
+      command: this.config.command,
+      args: this.config.args,
+      cwd: this.config.cwd,
+      env,
+      stderr: "pipe",
+    });
+    transport.stderr?.on("data", (chunk: Buffer) => this.diagnostics.captureStderr(chunk));
+
+    // Only public transport events are used: the process has exited once its stderr ends or
+    // the transport closes, whichever comes first. The transport can close more than once,
+    // so only the first event counts
+    let exited = false;
+    let recordExit: (() => void) | undefined;
+    transport.onspawn = () => {
+      const pid = transport.pid ?? undefined;
+      this.diagnostics.record("spawn", { pid });
+      logger.info(`Spawned server ${this.id}`, { pid });
+
+      recordExit = () => {
+        if (exited) {
+          return;
+        }
+        exited = true;
+        this.diagnostics.flushStderr();
+        this.diagnostics.record("exit", { pid });
+        logger.info(`Server ${this.id} process exited`, { pid });
+      };
+    };
+    transport.stderr?.once("end", () => recordExit?.());
+    // The MCP client keeps this handler and chains its own after it on connect
+    transport.onclose = () => recordExit?.();
+    return transport;
+  }
+
+  protected describeTarget(): Record<string, unknown> {
+    return { command: this.config.command, args: this.config.args };
+  }
+
+  protected get closedMessage(): string {
+    return "Server process exited";
   }
 }
@@ -0,0 +1,107 @@
+import type { ServerLifecycleEvent, ServerLifecycleEventType } from "../types.js";
+import { logger, redactString } from "../utils/logger.js";
+
+// Lines of stderr kept per server
+const STDERR_TAIL_LINES = 100;
+
+// Lifecycle events kept per server
+const MAX_LIFECYCLE_EVENTS = 50;
+
+// Longest partial stderr line held back waiting for its newline
+const MAX_PARTIAL_LINE_LENGTH = 8192;
+
+/**
+ * Fixed-capacity buffer that overwrites its oldest entry when full
+ */
+export class RingBuffer<T> {
+  private readonly items: T[] = [];
+  private next = 0;
+
+  constructor(private readonly capacity: number) {}
+
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.next] = item;
+    }
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  /**
+   * Entries oldest first
+   */
+  toArray(): T[] {
+    return this.items.length < this.capacity
+      ? [...this.items]
+      : [...this.items.slice(this.next), ...this.items.slice(0, this.next)];
+  }
+}
+
+/**
+ * Per-server stderr tail and lifecycle timeline
+ * Both survive restarts of the server, so the output that led up to a crash is kept
+ */
+export class ServerDiagnostics {
+  private readonly stderr = new RingBuffer<string>(STDERR_TAIL_LINES);
+  private readonly events = new RingBuffer<ServerLifecycleEvent>(MAX_LIFECYCLE_EVENTS);
+  private partialLine = "";
+
+  constructor(private readonly serverId: string) {}
+
+  /**
+   * Most recent stderr lines, oldest first
+   */
+  get stderrTail(): string[] {
+    return this.stderr.toArray();
+  }
+
+  /**
+   * Most recent lifecycle events, oldest first
+   */
+  get timeline(): ServerLifecycleEvent[] {
+    return this.events.toArray();
+  }
+
+  /**
+   * Split a chunk of stderr output into lines, keeping and logging each complete one
+   */
+  captureStderr(chunk: Buffer | string): void {
+    const lines = (this.partialLine + chunk.toString()).split(/\r?\n/);
+    this.partialLine = lines.pop() ?? "";
+    if (this.partialLine.length > MAX_PARTIAL_LINE_LENGTH) {
+      lines.push(this.partialLine);
+      this.partialLine = "";
+    }
+
+    for (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      const redacted = redactString(line);
+      this.stderr.push(redacted);
+      logger.info(`[${this.serverId}] ${redacted}`, { server: this.serverId, stream: "stderr" });
+    }
+  }
+
+  /**
+   * Flush a trailing line that never got its newline, e.g. when the process exits
+   */
+  flushStderr(): void {
+    if (this.partialLine) {
+      this.captureStderr("\n");
+    }
+  }
+
+  /**
+   * Add an event to the timeline
+   */
+  record(type: ServerLifecycleEventType, details: Omit<ServerLifecycleEvent, "type" | "at"> = {}): void {
+    this.events.push({
+      type,
+      at: new Date().toISOString(),
+      ...details,
+      message: details.message !== undefined ? redactString(details.message) : undefined,
+    });
+  }
+}
@@ -0,0 +1,164 @@
+import type { ConcurrencyPolicy } from "../types.js";
+import { RequestCancelledError, ServerBusyError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Default concurrency policy when none is configured: calls are counted but not limited
+ */
+const DEFAULT_CONCURRENCY_POLICY: ConcurrencyPolicy = {
+  maxQueue: 32,
+  queueTimeoutMs: 30000,
+};
+
+/**
+ * A call waiting for a free slot
+ */
+interface QueuedCall {
+  toolName: string;
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+  cleanup: () => void;
+}
+
+/**
+ * Counts and, when maxInFlight is set, caps the in-flight tool calls to one downstream server
+ * Calls beyond the limit wait in a bounded FIFO queue; a full queue or
+ * a call that waits longer than queueTimeoutMs is rejected with ServerBusyError
+ */
+export class ConcurrencyLimiter {
+  private readonly policy: ConcurrencyPolicy;
+  private readonly queue: QueuedCall[] = [];
+  private _inFlight = 0;
+
+  constructor(
+    private readonly serverId: string,
+    policy?: ConcurrencyPolicy
+  ) {
+    this.policy = policy ?? DEFAULT_CONCURRENCY_POLICY;
+  }
+
+  /**
+   * Number of calls currently running
+   */
+  get inFlight(): number {
+    return this._inFlight;
+  }
+
+  /**
+   * Number of calls waiting for a slot
+   */
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Run a call once a slot is free, releasing the slot when it settles
+   * Aborting the signal while queued removes the call from the queue
+   */
+  async run<T>(toolName: string, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const release = await this.acquire(toolName, signal);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Reject every queued call, e.g. when the pool is shutting down
+   */
+  rejectQueued(error: Error): void {
+    for (const call of this.queue.splice(0)) {
+      call.cleanup();
+      call.reject(error);
+    }
+  }
+
+  private acquire(toolName: string, signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestCancelledError(this.serverId, toolName));
+    }
+
+    if (this.policy.maxInFlight === undefined || this._inFlight < this.policy.maxInFlight) {
+      this._inFlight++;
+      return Promise.resolve(this.createRelease());
+    }
+
+    if (this.queue.length >= this.policy.maxQueue) {
+      logger.warn(`Queue full for server ${this.serverId}, rejecting call`, {
+        toolName,
+        inFlight: this._inFlight,
+        queueDepth: this.queue.length,
+      });
+      return Promise.reject(
+        new ServerBusyError(this.serverId, `queue full (${this.policy.maxQueue} calls waiting)`)
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        this.remove(call);
+        reject(new RequestCancelledError(this.serverId, toolName));
+      };
+
+      const call: QueuedCall = {
+        toolName,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.remove(call);
+          logger.warn(`Call to ${toolName} on server ${this.serverId} timed out in queue`, {
+            queueTimeoutMs: this.policy.queueTimeoutMs,
+          });
+          reject(
+            new ServerBusyError(
+              this.serverId,
+              `waited more than ${this.policy.queueTimeoutMs}ms for a free slot`
+            )
+          );
+        }, this.policy.queueTimeoutMs),
+        cleanup: () => {
+          clearTimeout(call.timer);
+          signal?.removeEventListener("abort", onAbort);
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(call);
+      logger.debug(`Queued call to ${toolName} on server ${this.serverId}`, {
+        queueDepth: this.queue.length,
+      });
+    });
+  }
+
+  /**
+   * Create a release function that frees the slot exactly once,
+   * handing it straight to the next queued call if there is one
+   */
+  private createRelease(): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      const next = this.queue.shift();
+      if (next) {
+        next.cleanup();
+        next.resolve(this.createRelease());
+      } else {
+        this._inFlight--;
+      }
+    };
+  }
+
+  private remove(call: QueuedCall): void {
+    call.cleanup();
+    const index = this.queue.indexOf(call);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+  }
+}
@@ -1,50 +1,136 @@
-import type { McpServerConfig, ServerStatus, AggregatedTool, AuthenticatedUser } from "../types.js";
-import { LocalServerClient } from "./client.js";
+import { EventEmitter } from "events";
+import type {
+  McpServerConfig,
+  ServerStatus,
+  AggregatedTool,
+  AggregatedResource,
+  AggregatedResourceTemplate,
+  AggregatedPrompt,
+  AuthenticatedUser,
+  AuditOutcome,
+  CacheConfig,
+  PolicyAction,
+  PolicyConfig,
+  PolicyDecision,
+  PoolConfig,
+  ServerConfigChanges,
+  ServerDetails,
+  ToolCallOptions,
+} from "../types.js";
+import { LocalServerClient, type ServerClient } from "./client.js";
+import { RemoteServerClient } from "./remote.js";
 import { ToolAggregator } from "./aggregator.js";
-import { ServerNotFoundError, AuthorizationError } from "../utils/errors.js";
+import { ResourceAggregator } from "./resources.js";
+import { PromptAggregator } from "./prompts.js";
+import { ServerSupervisor } from "./supervisor.js";
+import { ConcurrencyLimiter } from "./limiter.js";
+import { ServerDiagnostics } from "./diagnostics.js";
+import { ToolManifestStore } from "./manifests.js";
+import { ToolArgumentValidator } from "./validator.js";
+import { ToolPolicy } from "../auth/policy.js";
+import type { AuditLog } from "../audit/log.js";
+import { ToolResultCache } from "../cache/cache.js";
+import {
+  GatewayError,
+  ServerNotFoundError,
+  ServerConnectionError,
+  ServerStateError,
+  AuthorizationError,
+  ToolNotFoundError,
+  ToolTimeoutError,
+  RequestCancelledError,
+} from "../utils/errors.js";
 import { hasRequiredScopes } from "../config.js";
 import { logger } from "../utils/logger.js";
+import {
+  errorsTotal,
+  metrics,
+  serverInFlight,
+  serverQueueDepth,
+  toolCallDuration,
+  toolCallsTotal,
+} from "../utils/metrics.js";
+import { getRequestContext } from "../utils/context.js";
+import { tracer } from "../utils/tracing.js";
+
+/**
+ * Longest interval between checks for idle servers
+ */
+const MAX_IDLE_SWEEP_INTERVAL_MS = 60000;
+
+/**
+ * Events emitted by the server pool manager
+ */
+export interface ServerPoolEvents {
+  aggregationChanged: [];
+}
 
 /**
  * Manages the pool of local MCP server connections
  */
-export class ServerPoolManager {
-  private servers: Map<string, LocalServerClient> = new Map();
+export class ServerPoolManager extends EventEmitter<ServerPoolEvents> {
+  private servers: Map<string, ServerClient> = new Map();
+  private supervisors: Map<string, ServerSupervisor> = new Map();
+  private limiters: Map<string, ConcurrencyLimiter> = new Map();
+  private diagnostics: Map<string, ServerDiagnostics> = new Map();
+  private lastUsed: Map<string, number> = new Map();
+  private waking: Map<string, Promise<void>> = new Map();
+  private parking: Map<string, Promise<void>> = new Map();
+  private idleTimer: NodeJS.Timeout | null = null;
+  private manifestStore?: ToolManifestStore;
   private readonly aggregator: ToolAggregator;
-  private readonly serverConfigs: McpServerConfig[];
+  private readonly resourceAggregator: ResourceAggregator;
+  private readonly promptAggregator: PromptAggregator;
+  private readonly argumentValidator: ToolArgumentValidator;
+  private readonly policy?: ToolPolicy;
+  private readonly cache?: ToolResultCache;
+  private serverConfigs: McpServerConfig[];
 
-  constructor(serverConfigs: McpServerConfig[]) {
+  constructor(
+    serverConfigs: McpServerConfig[],
+    policyConfig?: PolicyConfig,
+    private readonly auditLog?: AuditLog,
+    cacheConfig?: CacheConfig,
+    private readonly poolConfig?: PoolConfig
+  ) {
+    super();
     this.serverConfigs = serverConfigs;
+    this.policy = policyConfig ? new ToolPolicy(policyConfig) : undefined;
+    this.cache = cacheConfig?.enabled ? new ToolResultCache(cacheConfig) : undefined;
     this.aggregator = new ToolAggregator();
+    this.resourceAggregator = new ResourceAggregator();
+    this.promptAggregator = new PromptAggregator();
+    this.argumentValidator = new ToolArgumentValidator();
+    for (const config of serverConfigs) {
+      this.limiters.set(config.id, new ConcurrencyLimiter(config.id, config.concurrency));
+      this.diagnostics.set(config.id, new ServerDiagnostics(config.id));
+    }
+    metrics.onCollect(() => {
+      for (const [serverId, limiter] of this.limiters) {
+        serverInFlight.set({ server: serverId }, limiter.inFlight);
+        serverQueueDepth.set({ server: serverId }, limiter.queueDepth);
+      }
+    });
     logger.info(`Server pool manager initialized with ${serverConfigs.length} server configs`);
   }
 
   /**
    * Start all enabled servers
+   * Each server is supervised, so servers that fail at boot are retried
    */
   async startAll(): Promise<void> {
     logger.info("Starting all enabled MCP servers");
 
     const enabledConfigs = this.serverConfigs.filter((config) => config.enabled);
-    const startPromises = enabledConfigs.map(async (config) => {
-      try {
-        const client = new LocalServerClient(config);
-        await client.connect();
-        this.servers.set(config.id, client);
-      } catch (error) {
-        logger.error(`Failed to start server ${config.id}`, error as Error);
-        // Continue with other servers
-      }
-    });
-
-    await Promise.all(startPromises);
+    await Promise.all(enabledConfigs.map((config) => this.launchServer(config)));
+    this.scheduleIdleSweep();
 
-    // Aggregate tools from all connected servers
+    // Aggregate tools from all connected and idle servers
     this.refreshAggregation();
 
     logger.info(`Server pool started`, {
       total: enabledConfigs.length,
-      connected: this.servers.size,
+      connected: this.connectedCount,
     });
   }
 
@@ -54,6 +140,19 @@ export class ServerPoolManager {
   async stopAll(): Promise<void> {
     logger.info("Stopping all MCP servers");
 
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = null;
+    }
+    for (const supervisor of this.supervisors.values()) {
+      supervisor.stop();
+    }
+    this.supervisors.clear();
+
+    for (const [serverId, limiter] of this.limiters) {
+      limiter.rejectQueued(new ServerConnectionError(serverId));
+    }
+
     const stopPromises = Array.from(this.servers.values()).map((client) =>
       client.disconnect()
     );
@@ -66,16 +165,306 @@ export class ServerPoolManager {
   }
 
   /**
-   * Refresh tool aggregation from all connected servers
+   * Apply a new set of server configs without touching unchanged servers
+   * Added servers are started, removed ones stopped and changed ones restarted
+   */
+  async reconfigure(serverConfigs: McpServerConfig[]): Promise<ServerConfigChanges> {
+    const changes = ServerPoolManager.diffServers(this.serverConfigs, serverConfigs);
+    const next = new Map(serverConfigs.map((config) => [config.id, config]));
+
+    // Stop removed and changed servers before their replacements start
+    await Promise.all(
+      [...changes.removed, ...changes.changed].map((serverId) => this.haltServer(serverId))
+    );
+    for (const serverId of changes.removed) {
+      this.limiters.delete(serverId);
+      this.diagnostics.delete(serverId);
+    }
+
+    this.serverConfigs = serverConfigs;
+    await Promise.all(
+      [...changes.added, ...changes.changed].map(async (serverId) => {
+        const config = next.get(serverId)!;
+        this.limiters.set(serverId, new ConcurrencyLimiter(serverId, config.concurrency));
+        // A changed server keeps its timeline, so the restart shows up in it
+        if (!this.diagnostics.has(serverId)) {
+          this.diagnostics.set(serverId, new ServerDiagnostics(serverId));
+        }
+        if (config.enabled) {
+          await this.launchServer(config);
+        }
+      })
+    );
+
+    // Results from servers that are gone or have changed may no longer hold
+    if (this.cache) {
+      for (const serverId of [...changes.removed, ...changes.changed]) {
+        await this.cache.invalidate({ serverId });
+      }
+    }
+
+    this.scheduleIdleSweep();
+    this.refreshAggregation();
+    logger.info("Server pool reconfigured", { ...changes });
+    return changes;
+  }
+
+  /**
+   * Start a stopped server
+   * Returns false if it is already running
+   */
+  async startServer(serverId: string): Promise<boolean> {
+    const config = this.getServerConfig(serverId);
+    if (!config.enabled) {
+      throw new ServerStateError(serverId, "Server is disabled; enable it to start it");
+    }
+    if (this.supervisors.has(serverId)) {
+      return false;
+    }
+
+    const client = this.servers.get(serverId);
+    if (client?.idle) {
+      await this.wakeServer(serverId, client);
+    } else {
+      await this.launchServer(config, true);
+    }
+    this.refreshAggregation();
+    return true;
+  }
+
+  /**
+   * Stop a running server; it stays stopped until started, restarted or re-enabled
+   * Returns false if it was not running
+   */
+  async stopServer(serverId: string): Promise<boolean> {
+    this.getServerConfig(serverId);
+    if (!this.servers.has(serverId)) {
+      return false;
+    }
+
+    await this.haltServer(serverId);
+    this.refreshAggregation();
+    return true;
+  }
+
+  /**
+   * Stop and start a server with a fresh supervisor, clearing an exhausted restart budget
+   */
+  async restartServer(serverId: string): Promise<void> {
+    const config = this.getServerConfig(serverId);
+    if (!config.enabled) {
+      throw new ServerStateError(serverId, "Server is disabled; enable it to start it");
+    }
+
+    await this.haltServer(serverId);
+    await this.launchServer(config, true);
+    this.refreshAggregation();
+  }
+
+  /**
+   * Enable and start, or disable and stop, a server
+   * The change lasts until the next config reload
+   */
+  async setServerEnabled(serverId: string, enabled: boolean): Promise<void> {
+    const config = this.getServerConfig(serverId);
+    const updated = { ...config, enabled };
+    this.serverConfigs = this.serverConfigs.map((entry) => (entry.id === serverId ? updated : entry));
+    logger.info(`Server ${serverId} ${enabled ? "enabled" : "disabled"}`);
+
+    if (enabled && !this.servers.has(serverId)) {
+      await this.launchServer(updated);
+    } else if (!enabled && this.servers.has(serverId)) {
+      await this.haltServer(serverId);
+    }
+    this.refreshAggregation();
+  }
+
+  /**
+   * Re-fetch a connected server's tools, resources and prompts
+   */
+  async refreshServer(serverId: string): Promise<void> {
+    this.getServerConfig(serverId);
+    const client = this.servers.get(serverId);
+    if (!client) {
+      throw new ServerConnectionError(serverId);
+    }
+    await client.refreshCapabilities();
+    this.refreshAggregation();
+  }
+
+  /**
+   * Get a server's configuration
+   */
+  private getServerConfig(serverId: string): McpServerConfig {
+    const config = this.serverConfigs.find((entry) => entry.id === serverId);
+    if (!config) {
+      throw new ServerNotFoundError(serverId);
+    }
+    return config;
+  }
+
+  /**
+   * Create one server's client and start it, or leave it idle until first use
+   * Lazy servers are listed from the tools they reported when they last ran,
+   * falling back to the manifest declared in their config
+   */
+  private async launchServer(
+    config: McpServerConfig,
+    startNow = config.startMode !== "lazy"
+  ): Promise<void> {
+    let diagnostics = this.diagnostics.get(config.id);
+    if (!diagnostics) {
+      diagnostics = new ServerDiagnostics(config.id);
+      this.diagnostics.set(config.id, diagnostics);
+    }
+    const client = ServerPoolManager.createClient(config, diagnostics);
+    client.on("connected", () => this.rememberTools(config, client));
+    client.on("capabilitiesChanged", () => {
+      this.rememberTools(config, client);
+      this.refreshAggregation();
+    });
+    this.servers.set(config.id, client);
+    this.lastUsed.set(config.id, Date.now());
+
+    if (!startNow) {
+      client.setKnownTools(this.manifests()?.get(config.id) ?? config.manifest?.tools ?? []);
+      await client.park();
+      logger.info(`Server ${config.id} will start on first use`, { toolCount: client.getTools().length });
+      return;
+    }
+    await this.superviseServer(client);
+  }
+
+  /**
+   * Supervise and start a server's client
+   */
+  private async superviseServer(client: ServerClient): Promise<void> {
+    const supervisor = new ServerSupervisor(client, () => this.refreshAggregation());
+    this.supervisors.set(client.id, supervisor);
+    // Failures are logged and retried by the supervisor
+    await supervisor.start();
+  }
+
+  /**
+   * Start an idle server for a call, sharing the start between concurrent callers
+   * A server still shutting down after going idle is started once its shutdown completes
+   */
+  private async wakeServer(serverId: string, client: ServerClient): Promise<void> {
+    let waking = this.waking.get(serverId);
+    if (!waking) {
+      if (!client.idle) {
+        return;
+      }
+      logger.info(`Starting idle server ${serverId} on demand`);
+      this.diagnostics.get(serverId)?.record("wake");
+      waking = (this.parking.get(serverId) ?? Promise.resolve())
+        .then(() => this.superviseServer(client))
+        .then(() => this.refreshAggregation())
+        .finally(() => this.waking.delete(serverId));
+      this.waking.set(serverId, waking);
+    }
+    await waking;
+  }
+
+  /**
+   * Stop servers that have had no calls for their idle timeout, keeping their tools listed
+   */
+  private async stopIdleServers(): Promise<void> {
+    const now = Date.now();
+    for (const config of this.serverConfigs) {
+      const client = this.servers.get(config.id);
+      const limiter = this.limiters.get(config.id);
+      if (!config.idleTimeoutMs || !client?.connected || !this.supervisors.has(config.id)) {
+        continue;
+      }
+      if (limiter && (limiter.inFlight > 0 || limiter.queueDepth > 0)) {
+        continue;
+      }
+      const idleMs = now - (this.lastUsed.get(config.id) ?? now);
+      if (idleMs < config.idleTimeoutMs) {
+        continue;
+      }
+
+      logger.info(`Stopping idle server ${config.id}`, { idleMs });
+      this.diagnostics.get(config.id)?.record("idle", { message: `No calls for ${idleMs}ms` });
+      // Parking marks the client idle at once, so a call arriving mid-shutdown wakes it again
+      const parking = client.park().finally(() => this.parking.delete(config.id));
+      this.parking.set(config.id, parking);
+      this.supervisors.get(config.id)?.stop();
+      this.supervisors.delete(config.id);
+      await parking;
+      this.refreshAggregation();
+    }
+  }
+
+  /**
+   * (Re)start the idle sweeper at an interval suited to the shortest idle timeout
+   */
+  private scheduleIdleSweep(): void {
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = null;
+    }
+
+    const timeouts = this.serverConfigs.flatMap((config) =>
+      config.idleTimeoutMs ? [config.idleTimeoutMs] : []
+    );
+    if (timeouts.length === 0) {
+      return;
+    }
+    this.idleTimer = setInterval(() => {
+      void this.stopIdleServers();
+    }, Math.min(...timeouts, MAX_IDLE_SWEEP_INTERVAL_MS));
+    this.idleTimer.unref();
+  }
+
+  /**
+   * Persist the tools of servers that can be idle, so they stay listed after a gateway restart
+   */
+  private rememberTools(config: McpServerConfig, client: ServerClient): void {
+    if (config.startMode === "lazy" || config.idleTimeoutMs) {
+      this.manifests()?.set(config.id, client.getTools());
+    }
+  }
+
+  /**
+   * Tool manifest store, opened on first use
+   */
+  private manifests(): ToolManifestStore | undefined {
+    if (!this.manifestStore && this.poolConfig) {
+      this.manifestStore = new ToolManifestStore(this.poolConfig.manifestCachePath);
+    }
+    return this.manifestStore;
+  }
+
+  /**
+   * Stop one server, failing any calls still waiting for it
+   */
+  private async haltServer(serverId: string): Promise<void> {
+    this.supervisors.get(serverId)?.stop();
+    this.supervisors.delete(serverId);
+    this.limiters.get(serverId)?.rejectQueued(new ServerConnectionError(serverId));
+
+    const client = this.servers.get(serverId);
+    this.servers.delete(serverId);
+    await client?.disconnect();
+  }
+
+  /**
+   * Refresh tool, resource and prompt aggregation from all connected servers
+   * Emits aggregationChanged so active sessions can be notified
    */
   refreshAggregation(): void {
     this.aggregator.aggregate(this.servers);
+    this.resourceAggregator.aggregate(this.servers);
+    this.promptAggregator.aggregate(this.servers);
+    this.emit("aggregationChanged");
   }
 
   /**
    * Get a specific server client
    */
-  getServer(serverId: string): LocalServerClient {
+  getServer(serverId: string): ServerClient {
     const server = this.servers.get(serverId);
     if (!server) {
       throw new ServerNotFoundError(serverId);
@@ -99,7 +488,14 @@ export class ServerPoolManager {
   }
 
   /**
-   * Get tools filtered by user scopes
+   * Get the ID of the server providing a namespaced tool
+   */
+  getToolServer(namespacedToolName: string): string | undefined {
+    return this.aggregator.getTool(namespacedToolName)?.serverId;
+  }
+
+  /**
+   * Get tools filtered by user scopes and tool policy
    */
   getToolsForUser(user?: AuthenticatedUser): AggregatedTool[] {
     const allTools = this.aggregator.getTools();
@@ -108,23 +504,236 @@ export class ServerPoolManager {
       return allTools;
     }
 
-    return allTools.filter((tool) => {
-      const server = this.servers.get(tool.serverId);
-      if (!server) {
-        return false;
-      }
-      return hasRequiredScopes(user.scopes, server.requiredScopes);
+    return allTools.filter(
+      (tool) =>
+        this.canAccessServer(tool.serverId, user) &&
+        (!this.policy || this.policy.evaluate(user, tool.name, "list").allowed)
+    );
+  }
+
+  /**
+   * Explain whether a user may list or call a tool
+   * Combines the server's required scopes with the tool policy
+   */
+  explainToolAccess(
+    namespacedToolName: string,
+    action: PolicyAction,
+    user: AuthenticatedUser,
+    args: Record<string, unknown> = {}
+  ): PolicyDecision {
+    const serverId = this.getToolServer(namespacedToolName);
+    const serverConfig = serverId
+      ? this.serverConfigs.find((config) => config.id === serverId)
+      : undefined;
+    if (!serverConfig) {
+      return { allowed: false, reason: `No server for tool ${namespacedToolName}` };
+    }
+
+    const requiredScopes = serverConfig.requiredScopes ?? [];
+    if (!hasRequiredScopes(user.scopes, requiredScopes)) {
+      return {
+        allowed: false,
+        reason: `Server ${serverConfig.id} requires scopes ${requiredScopes.join(", ")}`,
+      };
+    }
+
+    if (!this.policy) {
+      return { allowed: true, reason: "No tool policy configured" };
+    }
+    return this.policy.evaluate(user, namespacedToolName, action, args);
+  }
+
+  /**
+   * Validate tool call arguments against the tool's input schema
+   * Throws InvalidRequestError listing every failing path
+   */
+  validateToolArguments(namespacedToolName: string, args: Record<string, unknown>): void {
+    const tool = this.aggregator.getTool(namespacedToolName);
+    if (!tool) {
+      throw new ToolNotFoundError(namespacedToolName);
+    }
+    this.argumentValidator.validate(tool, args);
+  }
+
+  /**
+   * Check whether a user may access a server
+   */
+  private canAccessServer(serverId: string, user?: AuthenticatedUser): boolean {
+    if (!user) {
+      return true;
+    }
+    const server = this.servers.get(serverId);
+    if (!server) {
+      return false;
+    }
+    return hasRequiredScopes(user.scopes, server.requiredScopes);
+  }
+
+  /**
+   * Get resources filtered by user scopes
+   */
+  getResourcesForUser(user?: AuthenticatedUser): AggregatedResource[] {
+    return this.resourceAggregator
+      .getResources()
+      .filter((resource) => this.canAccessServer(resource.serverId, user));
+  }
+
+  /**
+   * Get resource templates filtered by user scopes
+   */
+  getResourceTemplatesForUser(user?: AuthenticatedUser): AggregatedResourceTemplate[] {
+    return this.resourceAggregator
+      .getResourceTemplates()
+      .filter((template) => this.canAccessServer(template.serverId, user));
+  }
+
+  /**
+   * Route a resource read to the appropriate server
+   */
+  async routeResourceRead(namespacedUri: string, user?: AuthenticatedUser): Promise<unknown> {
+    const { serverId, uri } = this.resourceAggregator.resolveResourceRead(namespacedUri);
+    const server = this.getServer(serverId);
+
+    if (user && !hasRequiredScopes(user.scopes, server.requiredScopes)) {
+      throw new AuthorizationError(
+        `Insufficient scopes to access server ${serverId}`
+      );
+    }
+
+    logger.info(`Routing resource read`, {
+      namespacedUri,
+      serverId,
+      uri,
+      userId: user?.id,
+    });
+
+    // Idle servers are started on their first read
+    this.lastUsed.set(serverId, Date.now());
+    await this.wakeServer(serverId, server);
+    try {
+      return await server.readResource(uri);
+    } finally {
+      this.lastUsed.set(serverId, Date.now());
+    }
+  }
+
+  /**
+   * Get prompts filtered by user scopes
+   */
+  getPromptsForUser(user?: AuthenticatedUser): AggregatedPrompt[] {
+    return this.promptAggregator
+      .getPrompts()
+      .filter((prompt) => this.canAccessServer(prompt.serverId, user));
+  }
+
+  /**
+   * Route a prompt request to the appropriate server
+   */
+  async routePromptGet(
+    namespacedPromptName: string,
+    args?: Record<string, string>,
+    user?: AuthenticatedUser
+  ): Promise<unknown> {
+    const { serverId, promptName } = this.promptAggregator.resolvePrompt(namespacedPromptName);
+    const server = this.getServer(serverId);
+
+    if (user && !hasRequiredScopes(user.scopes, server.requiredScopes)) {
+      throw new AuthorizationError(
+        `Insufficient scopes to access server ${serverId}`
+      );
+    }
+
+    logger.info(`Routing prompt request`, {
+      namespacedPromptName,
+      serverId,
+      promptName,
+      userId: user?.id,
     });
+
+    // Idle servers are started on their first prompt request
+    this.lastUsed.set(serverId, Date.now());
+    await this.wakeServer(serverId, server);
+    try {
+      return await server.getPrompt(promptName, args);
+    } finally {
+      this.lastUsed.set(serverId, Date.now());
+    }
   }
 
   /**
    * Route a tool call to the appropriate server
+   * Every call, including denied and failed ones, is traced and written to the audit log and metrics
    */
   async routeToolCall(
     namespacedToolName: string,
     args: Record<string, unknown>,
-    user?: AuthenticatedUser
+    user?: AuthenticatedUser,
+    options: ToolCallOptions = {}
   ): Promise<unknown> {
+    const startTime = Date.now();
+    // Resolved through the tool map, since server IDs may themselves contain the separator
+    const serverId = this.aggregator.getTool(namespacedToolName)?.serverId;
+    // Unknown tool names are bucketed to keep label cardinality bounded. Labels are fixed
+    // before the call, since a server that crashes mid-call has its tools removed
+    const labels = {
+      server: serverId ?? "unknown",
+      tool: serverId ? namespacedToolName : "unknown",
+    };
+    const audit = (outcome: AuditOutcome, errorCode?: string, error?: string, cached?: boolean): void => {
+      toolCallsTotal.inc({ ...labels, outcome });
+      toolCallDuration.observe(labels, (Date.now() - startTime) / 1000);
+      if (errorCode) {
+        errorsTotal.inc({ code: errorCode });
+      }
+
+      this.auditLog?.record({
+        userId: user?.id,
+        clientId: user?.clientId,
+        tokenName: user?.tokenName,
+        tool: namespacedToolName,
+        serverId,
+        arguments: args,
+        outcome,
+        errorCode,
+        error,
+        durationMs: Date.now() - startTime,
+        traceId: getRequestContext()?.span.traceId,
+        cached,
+      });
+    };
+
+    const attributes = { "mcp.tool": namespacedToolName, "mcp.server": serverId, "enduser.id": user?.id };
+    return tracer.withSpan("gateway.route_tool_call", attributes, async (span) => {
+      try {
+        const { result, cached } = await this.executeToolCall(namespacedToolName, args, user, options);
+        span.setAttributes({ "gateway.cache_hit": cached });
+        if (ServerPoolManager.isErrorResult(result)) {
+          span.recordError("Tool returned an error result");
+          audit("error", "TOOL_ERROR");
+        } else {
+          audit("success", undefined, undefined, cached || undefined);
+        }
+        return result;
+      } catch (error) {
+        audit(
+          ServerPoolManager.outcomeFor(error),
+          error instanceof GatewayError ? error.code : "INTERNAL_ERROR",
+          error instanceof Error ? error.message : String(error)
+        );
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Authorize, validate and forward a tool call, answering from the result cache when possible
+   */
+  private async executeToolCall(
+    namespacedToolName: string,
+    args: Record<string, unknown>,
+    user: AuthenticatedUser | undefined,
+    options: ToolCallOptions
+  ): Promise<{ result: unknown; cached: boolean }> {
     const { serverId, toolName } = this.aggregator.resolveToolCall(namespacedToolName);
     const server = this.getServer(serverId);
 
@@ -135,14 +744,112 @@ export class ServerPoolManager {
       );
     }
 
+    // Check the tool policy before validation so denied users learn nothing about the schema
+    if (user && this.policy) {
+      const decision = this.policy.evaluate(user, namespacedToolName, "call", args);
+      if (!decision.allowed) {
+        logger.warn(`Tool call denied by policy`, {
+          namespacedToolName,
+          userId: user.id,
+          reason: decision.reason,
+        });
+        throw new AuthorizationError(decision.reason);
+      }
+    }
+
+    this.validateToolArguments(namespacedToolName, args);
+
     logger.info(`Routing tool call`, {
       namespacedToolName,
       serverId,
       toolName,
       userId: user?.id,
+      clientId: user?.clientId,
     });
 
-    return await server.callTool(toolName, args);
+    // Cached results are looked up only after authorization and validation have passed
+    const cache = this.cache;
+    const tool = this.aggregator.getTool(namespacedToolName);
+    const cachePolicy = cache && tool ? cache.policyFor(tool) : undefined;
+    const cacheKey = cachePolicy && ToolResultCache.key(namespacedToolName, args, cachePolicy, user?.id);
+    if (cache && cacheKey) {
+      const cachedResult = await cache.get(namespacedToolName, cacheKey);
+      if (cachedResult !== undefined) {
+        logger.debug(`Serving cached result for ${namespacedToolName}`, { userId: user?.id });
+        return { result: cachedResult, cached: true };
+      }
+    }
+
+    // Idle servers are started on their first call
+    this.lastUsed.set(serverId, Date.now());
+    await this.wakeServer(serverId, server);
+
+    // Calls beyond the server's concurrency limit wait in its queue
+    const limiter = this.limiters.get(serverId);
+    let result: unknown;
+    try {
+      result = limiter
+        ? await limiter.run(toolName, () => server.callTool(toolName, args, options), options.signal)
+        : await server.callTool(toolName, args, options);
+    } finally {
+      this.lastUsed.set(serverId, Date.now());
+    }
+
+    // Error results are never cached
+    if (cache && cachePolicy && cacheKey && !ServerPoolManager.isErrorResult(result)) {
+      await cache.set(namespacedToolName, cacheKey, result, cachePolicy);
+    }
+    return { result, cached: false };
+  }
+
+  /**
+   * Remove cached tool results for one tool, one server or everything
+   * Returns the number of entries removed, or undefined when caching is disabled
+   */
+  async invalidateCache(filter: { tool?: string; serverId?: string } = {}): Promise<number | undefined> {
+    return this.cache?.invalidate(filter);
+  }
+
+  /**
+   * Compare two server config lists by ID
+   */
+  private static diffServers(
+    previous: McpServerConfig[],
+    next: McpServerConfig[]
+  ): ServerConfigChanges {
+    const before = new Map(previous.map((config) => [config.id, JSON.stringify(config)]));
+    const after = new Map(next.map((config) => [config.id, JSON.stringify(config)]));
+    return {
+      added: [...after.keys()].filter((id) => !before.has(id)),
+      removed: [...before.keys()].filter((id) => !after.has(id)),
+      changed: [...after.keys()].filter((id) => before.has(id) && before.get(id) !== after.get(id)),
+    };
+  }
+
+  /**
+   * Create the client for a server's configured transport
+   */
+  private static createClient(config: McpServerConfig, diagnostics: ServerDiagnostics): ServerClient {
+    return config.transport === "stdio"
+      ? new LocalServerClient(config, diagnostics)
+      : new RemoteServerClient(config, diagnostics);
+  }
+
+  /**
+   * Whether a tool result reports a tool-level error
+   */
+  private static isErrorResult(result: unknown): boolean {
+    return result !== null && typeof result === "object" && (result as { isError?: unknown }).isError === true;
+  }
+
+  /**
+   * Classify a failed tool call for the audit log and metrics
+   */
+  private static outcomeFor(error: unknown): AuditOutcome {
+    if (error instanceof AuthorizationError) return "denied";
+    if (error instanceof ToolTimeoutError) return "timeout";
+    if (error instanceof RequestCancelledError) return "cancelled";
+    return "error";
   }
 
   /**
@@ -151,16 +858,68 @@ export class ServerPoolManager {
   getStatus(): ServerStatus[] {
     return this.serverConfigs.map((config) => {
       const client = this.servers.get(config.id);
+      const supervisor = this.supervisors.get(config.id);
+      let error: string | undefined;
+      if (!config.enabled) {
+        error = "Disabled";
+      } else if (!client?.connected && !client?.idle) {
+        error = supervisor?.gaveUp
+          ? `Restart budget exhausted: ${client?.lastError ?? "unknown error"}`
+          : client?.lastError ?? "Not connected";
+      } else if (client.circuitState === "open") {
+        error = `Circuit open: ${client.lastCallFailure ?? "repeated failures"}`;
+      }
       return {
         id: config.id,
         name: config.name,
+        transport: config.transport,
+        enabled: config.enabled,
+        running: this.supervisors.has(config.id),
+        idle: client?.idle ?? false,
         connected: client?.connected ?? false,
         toolCount: client ? client.getTools().length : 0,
-        error: client?.connected ? undefined : "Not connected",
+        resourceCount: client ? client.getResources().length : 0,
+        promptCount: client ? client.getPrompts().length : 0,
+        restartCount: supervisor?.restartCount ?? 0,
+        inFlight: this.limiters.get(config.id)?.inFlight ?? 0,
+        queueDepth: this.limiters.get(config.id)?.queueDepth ?? 0,
+        circuit: client?.circuitState ?? "closed",
+        error,
       };
     });
   }
 
+  /**
+   * Get one server's status with its last errors, stderr tail and lifecycle timeline
+   */
+  getServerDetails(serverId: string): ServerDetails {
+    const status = this.getStatus().find((entry) => entry.id === serverId);
+    if (!status) {
+      throw new ServerNotFoundError(serverId);
+    }
+    return this.withDetails(status);
+  }
+
+  /**
+   * Get every server's status with diagnostics
+   */
+  getAllServerDetails(): ServerDetails[] {
+    return this.getStatus().map((status) => this.withDetails(status));
+  }
+
+  private withDetails(status: ServerStatus): ServerDetails {
+    const client = this.servers.get(status.id);
+    const diagnostics = this.diagnostics.get(status.id);
+    return {
+      ...status,
+      lastError: client?.lastError,
+      lastCallFailure: client?.lastCallFailure,
+      gaveUp: this.supervisors.get(status.id)?.gaveUp ?? false,
+      stderr: diagnostics?.stderrTail ?? [],
+      events: diagnostics?.timeline ?? [],
+    };
+  }
+
   /**
    * Get count of connected servers
    */
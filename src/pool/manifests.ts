@@ -0,0 +1,78 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { z } from "zod";
+import type { McpTool } from "../types.js";
+import { logger } from "../utils/logger.js";
+
+const StoredManifestsSchema = z.record(
+  z.object({
+    savedAt: z.string(),
+    tools: z.array(
+      z.custom<McpTool>((value) => typeof (value as Partial<McpTool> | null)?.name === "string")
+    ),
+  })
+);
+
+type StoredManifests = z.infer<typeof StoredManifestsSchema>;
+
+/**
+ * Last tool list reported by each server, persisted to a JSON file
+ * Lets servers that are started lazily or stopped when idle keep their tools listed
+ * across gateway restarts
+ */
+export class ToolManifestStore {
+  private manifests: StoredManifests = {};
+
+  constructor(private readonly path: string) {
+    try {
+      mkdirSync(dirname(path), { recursive: true });
+    } catch (error) {
+      logger.error(`Failed to prepare tool manifest store at ${path}`, error as Error);
+    }
+    this.load();
+  }
+
+  /**
+   * Tools a server reported when it last ran, if known
+   */
+  get(serverId: string): McpTool[] | undefined {
+    return this.manifests[serverId]?.tools;
+  }
+
+  /**
+   * Remember a server's tools, writing only when they changed
+   */
+  set(serverId: string, tools: McpTool[]): void {
+    if (JSON.stringify(this.manifests[serverId]?.tools) === JSON.stringify(tools)) {
+      return;
+    }
+    this.manifests[serverId] = { savedAt: new Date().toISOString(), tools };
+    this.save();
+  }
+
+  private load(): void {
+    if (!existsSync(this.path)) {
+      return;
+    }
+
+    try {
+      this.manifests = StoredManifestsSchema.parse(JSON.parse(readFileSync(this.path, "utf-8")));
+      logger.info(`Loaded tool manifests for ${Object.keys(this.manifests).length} servers from ${this.path}`);
+    } catch (error) {
+      logger.error(`Failed to load tool manifests from ${this.path}`, error as Error);
+    }
+  }
+
+  /**
+   * Persist manifests, writing a temporary file first so a crash never leaves a truncated store
+   */
+  private save(): void {
+    const tempPath = `${this.path}.tmp`;
+    try {
+      writeFileSync(tempPath, JSON.stringify(this.manifests), { mode: 0o600 });
+      renameSync(tempPath, this.path);
+    } catch (error) {
+      logger.error(`Failed to persist tool manifests to ${this.path}`, error as Error);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import type { AggregatedPrompt } from "../types.js";
+import type { ServerClient } from "./client.js";
+import { ToolAggregator } from "./aggregator.js";
+import { PromptNotFoundError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Aggregates prompts from multiple MCP servers with namespacing
+ */
+export class PromptAggregator {
+  private aggregatedPrompts: Map<string, AggregatedPrompt> = new Map();
+
+  /**
+   * Aggregate prompts from all connected and idle servers
+   */
+  aggregate(servers: Map<string, ServerClient>): AggregatedPrompt[] {
+    this.aggregatedPrompts.clear();
+
+    for (const [serverId, client] of servers) {
+      if (!client.connected && !client.idle) {
+        continue;
+      }
+
+      for (const prompt of client.getPrompts()) {
+        const namespacedName = ToolAggregator.buildNamespacedName(serverId, prompt.name);
+        if (this.aggregatedPrompts.has(namespacedName)) {
+          logger.warn(`Duplicate namespaced prompt name: ${namespacedName}`);
+        }
+
+        this.aggregatedPrompts.set(namespacedName, {
+          ...prompt,
+          name: namespacedName,
+          description: prompt.description
+            ? `[${client.name}] ${prompt.description}`
+            : `[${client.name}] ${prompt.name}`,
+          serverId,
+          originalName: prompt.name,
+        });
+      }
+    }
+
+    logger.info(`Aggregated ${this.aggregatedPrompts.size} prompts from ${servers.size} servers`);
+    return this.getPrompts();
+  }
+
+  /**
+   * Get all aggregated prompts
+   */
+  getPrompts(): AggregatedPrompt[] {
+    return Array.from(this.aggregatedPrompts.values());
+  }
+
+  /**
+   * Resolve a prompt request to its target server and original name
+   */
+  resolvePrompt(namespacedName: string): { serverId: string; promptName: string } {
+    const prompt = this.aggregatedPrompts.get(namespacedName);
+    if (!prompt) {
+      throw new PromptNotFoundError(namespacedName);
+    }
+
+    return {
+      serverId: prompt.serverId,
+      promptName: prompt.originalName,
+    };
+  }
+
+  /**
+   * Get prompt count
+   */
+  get promptCount(): number {
+    return this.aggregatedPrompts.size;
+  }
+}
@@ -0,0 +1,39 @@
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { RemoteServerConfig } from "../types.js";
+import { ServerClient } from "./client.js";
+import type { ServerDiagnostics } from "./diagnostics.js";
+
+/**
+ * Client for a remote MCP server reached over Streamable HTTP or legacy HTTP+SSE
+ * Configured headers and the bearer token are sent on every request, including the SSE stream
+ */
+export class RemoteServerClient extends ServerClient {
+  constructor(
+    protected readonly config: RemoteServerConfig,
+    diagnostics?: ServerDiagnostics
+  ) {
+    super(config, diagnostics);
+  }
+
+  protected createTransport(): Transport {
+    const headers: Record<string, string> = { ...this.config.headers };
+    if (this.config.bearerToken) {
+      headers.Authorization = `Bearer ${this.config.bearerToken}`;
+    }
+
+    const url = new URL(this.config.url);
+    return this.config.transport === "sse"
+      ? new SSEClientTransport(url, { requestInit: { headers } })
+      : new StreamableHTTPClientTransport(url, { requestInit: { headers } });
+  }
+
+  protected describeTarget(): Record<string, unknown> {
+    return { transport: this.config.transport, url: this.config.url };
+  }
+
+  protected get closedMessage(): string {
+    return "Connection to remote server closed";
+  }
+}
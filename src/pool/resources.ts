@@ -0,0 +1,138 @@
+import type { AggregatedResource, AggregatedResourceTemplate } from "../types.js";
+import type { ServerClient } from "./client.js";
+import { ToolAggregator } from "./aggregator.js";
+import { ResourceNotFoundError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Separator between the server ID and the original URI
+ * "+" is valid in a URI scheme, so "garmin+file:///x" stays a well-formed URI
+ */
+const URI_NAMESPACE_SEPARATOR = "+";
+
+/**
+ * Aggregates resources and resource templates from multiple MCP servers with namespacing
+ */
+export class ResourceAggregator {
+  private aggregatedResources: Map<string, AggregatedResource> = new Map();
+  private aggregatedTemplates: Map<string, AggregatedResourceTemplate> = new Map();
+
+  /**
+   * Build namespaced resource URI (also used for URI templates)
+   */
+  static buildNamespacedUri(serverId: string, uri: string): string {
+    return `${serverId}${URI_NAMESPACE_SEPARATOR}${uri}`;
+  }
+
+  /**
+   * Parse namespaced URI to extract server ID and original URI
+   */
+  static parseNamespacedUri(namespacedUri: string): { serverId: string; uri: string } | null {
+    const separatorIndex = namespacedUri.indexOf(URI_NAMESPACE_SEPARATOR);
+    if (separatorIndex === -1) {
+      return null;
+    }
+
+    return {
+      serverId: namespacedUri.substring(0, separatorIndex),
+      uri: namespacedUri.substring(separatorIndex + 1),
+    };
+  }
+
+  /**
+   * Aggregate resources and templates from all connected and idle servers
+   */
+  aggregate(servers: Map<string, ServerClient>): void {
+    this.aggregatedResources.clear();
+    this.aggregatedTemplates.clear();
+
+    for (const [serverId, client] of servers) {
+      if (!client.connected && !client.idle) {
+        continue;
+      }
+
+      for (const resource of client.getResources()) {
+        const namespacedUri = ResourceAggregator.buildNamespacedUri(serverId, resource.uri);
+        if (this.aggregatedResources.has(namespacedUri)) {
+          logger.warn(`Duplicate namespaced resource URI: ${namespacedUri}`);
+        }
+
+        this.aggregatedResources.set(namespacedUri, {
+          ...resource,
+          uri: namespacedUri,
+          name: ToolAggregator.buildNamespacedName(serverId, resource.name),
+          description: resource.description
+            ? `[${client.name}] ${resource.description}`
+            : `[${client.name}] ${resource.name}`,
+          serverId,
+          originalUri: resource.uri,
+        });
+      }
+
+      for (const template of client.getResourceTemplates()) {
+        const namespacedTemplate = ResourceAggregator.buildNamespacedUri(
+          serverId,
+          template.uriTemplate
+        );
+
+        this.aggregatedTemplates.set(namespacedTemplate, {
+          ...template,
+          uriTemplate: namespacedTemplate,
+          name: ToolAggregator.buildNamespacedName(serverId, template.name),
+          description: template.description
+            ? `[${client.name}] ${template.description}`
+            : `[${client.name}] ${template.name}`,
+          serverId,
+          originalUriTemplate: template.uriTemplate,
+        });
+      }
+    }
+
+    logger.info(
+      `Aggregated ${this.aggregatedResources.size} resources and ${this.aggregatedTemplates.size} resource templates`
+    );
+  }
+
+  /**
+   * Get all aggregated resources
+   */
+  getResources(): AggregatedResource[] {
+    return Array.from(this.aggregatedResources.values());
+  }
+
+  /**
+   * Get all aggregated resource templates
+   */
+  getResourceTemplates(): AggregatedResourceTemplate[] {
+    return Array.from(this.aggregatedTemplates.values());
+  }
+
+  /**
+   * Resolve a resource read to its target server and original URI
+   * Static resources are looked up directly; URIs expanded from a template
+   * are routed by their server prefix
+   */
+  resolveResourceRead(namespacedUri: string): { serverId: string; uri: string } {
+    const resource = this.aggregatedResources.get(namespacedUri);
+    if (resource) {
+      return { serverId: resource.serverId, uri: resource.originalUri };
+    }
+
+    const parsed = ResourceAggregator.parseNamespacedUri(namespacedUri);
+    if (
+      parsed &&
+      this.getResourceTemplates().some((template) => template.serverId === parsed.serverId)
+    ) {
+      return parsed;
+    }
+
+    throw new ResourceNotFoundError(namespacedUri);
+  }
+
+  /**
+   * Get resource count
+   */
+  get resourceCount(): number {
+    return this.aggregatedResources.size;
+  }
+}
@@ -0,0 +1,156 @@
+import type { RestartPolicy } from "../types.js";
+import type { ServerClient } from "./client.js";
+import { logger } from "../utils/logger.js";
+import { serverRestartsTotal } from "../utils/metrics.js";
+
+/**
+ * Default restart policy when none is configured
+ */
+const DEFAULT_RESTART_POLICY: RestartPolicy = {
+  enabled: true,
+  maxRestarts: 5,
+  windowMs: 600000,
+  initialDelayMs: 1000,
+  maxDelayMs: 60000,
+};
+
+/**
+ * Supervises a server client, restarting it with exponential backoff
+ * when it fails to start or its process exits or connection drops unexpectedly
+ */
+export class ServerSupervisor {
+  private readonly policy: RestartPolicy;
+  private restartTimes: number[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private attempt = 0;
+  private stopped = false;
+  private _restartCount = 0;
+  private _gaveUp = false;
+
+  constructor(
+    private readonly client: ServerClient,
+    private readonly onStateChange: () => void
+  ) {
+    this.policy = client.serverConfig.restart ?? DEFAULT_RESTART_POLICY;
+    this.handleDisconnect = this.handleDisconnect.bind(this);
+  }
+
+  /**
+   * Number of restart attempts made so far
+   */
+  get restartCount(): number {
+    return this._restartCount;
+  }
+
+  /**
+   * Whether the restart budget has been exhausted
+   */
+  get gaveUp(): boolean {
+    return this._gaveUp;
+  }
+
+  /**
+   * Start supervising: connect the client and watch for crashes
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    this._gaveUp = false;
+    this.client.on("disconnected", this.handleDisconnect);
+
+    try {
+      await this.client.connect();
+      this.attempt = 0;
+    } catch (error) {
+      logger.error(`Failed to start server ${this.client.id}`, error as Error);
+      this.scheduleRestart();
+    }
+  }
+
+  /**
+   * Stop supervising and cancel any pending restart
+   */
+  stop(): void {
+    this.stopped = true;
+    this.client.off("disconnected", this.handleDisconnect);
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * React to an unexpected disconnect of the supervised client
+   */
+  private handleDisconnect(error: Error | undefined): void {
+    logger.warn(`Supervised server ${this.client.id} went down`, {
+      error: error?.message,
+    });
+    this.onStateChange();
+    this.scheduleRestart();
+  }
+
+  /**
+   * Schedule the next restart attempt, respecting backoff and the restart budget
+   */
+  private scheduleRestart(): void {
+    if (this.stopped || this.timer || !this.policy.enabled) {
+      return;
+    }
+
+    const now = Date.now();
+    this.restartTimes = this.restartTimes.filter((t) => now - t < this.policy.windowMs);
+    if (this.restartTimes.length >= this.policy.maxRestarts) {
+      this._gaveUp = true;
+      this.client.diagnostics.record("gave_up", {
+        message: `${this.restartTimes.length} restarts within ${this.policy.windowMs}ms`,
+      });
+      logger.error(`Restart budget exhausted for server ${this.client.id}`, undefined, {
+        maxRestarts: this.policy.maxRestarts,
+        windowMs: this.policy.windowMs,
+      });
+      return;
+    }
+
+    const delay = Math.min(
+      this.policy.initialDelayMs * 2 ** this.attempt,
+      this.policy.maxDelayMs
+    );
+    this.attempt++;
+
+    logger.info(`Scheduling restart of server ${this.client.id}`, {
+      attempt: this.attempt,
+      delayMs: delay,
+    });
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.restart();
+    }, delay);
+  }
+
+  /**
+   * Attempt to reconnect the supervised client
+   */
+  private async restart(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+
+    this.restartTimes.push(Date.now());
+    this._restartCount++;
+    serverRestartsTotal.inc({ server: this.client.id });
+    this.client.diagnostics.record("restart", { attempt: this.attempt });
+
+    try {
+      await this.client.connect();
+      this.attempt = 0;
+      logger.info(`Server ${this.client.id} restarted`, {
+        restartCount: this._restartCount,
+      });
+      this.onStateChange();
+    } catch {
+      // connect() already logged the failure
+      this.scheduleRestart();
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { createHash } from "crypto";
+import { Ajv, type ErrorObject, type ValidateFunction } from "ajv";
+import type { AggregatedTool } from "../types.js";
+import { InvalidRequestError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * A single argument validation failure
+ */
+export interface ArgumentValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Compiled validator for one tool and the schema it was compiled from
+ */
+interface CompiledSchema {
+  hash: string;
+  schema: object;
+  validateFn: ValidateFunction | null;
+}
+
+/**
+ * Validates tool call arguments against the downstream tool's JSON Schema
+ */
+export class ToolArgumentValidator {
+  private readonly ajv: Ajv;
+  // Keyed by tool name and checked against a hash of the schema, so a tool list refresh with
+  // an unchanged schema reuses the validator and a changed schema replaces it in Ajv too
+  private readonly compiled: Map<string, CompiledSchema> = new Map();
+
+  constructor() {
+    this.ajv = new Ajv({
+      strict: false,
+      allErrors: true,
+      validateSchema: false,
+    });
+  }
+
+  /**
+   * Validate arguments for a tool, throwing InvalidRequestError on failure
+   */
+  validate(tool: AggregatedTool, args: Record<string, unknown>): void {
+    const validateFn = this.getValidator(tool);
+    if (!validateFn || validateFn(args)) {
+      return;
+    }
+
+    const issues = (validateFn.errors ?? []).map(ToolArgumentValidator.toIssue);
+    throw new InvalidRequestError(`Invalid arguments for tool ${tool.name}`, {
+      tool: tool.name,
+      issues,
+    });
+  }
+
+  /**
+   * Get (or compile) the validator for a tool's input schema
+   * Schemas that fail to compile are skipped rather than blocking the call
+   */
+  private getValidator(tool: AggregatedTool): ValidateFunction | null {
+    const cached = this.compiled.get(tool.name);
+    if (cached?.schema === tool.inputSchema) {
+      return cached.validateFn;
+    }
+    const hash = createHash("sha256").update(JSON.stringify(tool.inputSchema)).digest("hex");
+    if (cached?.hash === hash) {
+      cached.schema = tool.inputSchema;
+      return cached.validateFn;
+    }
+    if (cached) {
+      // Ajv holds every compiled schema in its own cache until it is removed
+      this.ajv.removeSchema(cached.schema);
+    }
+
+    let validateFn: ValidateFunction | null = null;
+    try {
+      validateFn = this.ajv.compile(tool.inputSchema);
+    } catch (error) {
+      logger.warn(`Could not compile input schema for tool ${tool.name}, skipping validation`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    this.compiled.set(tool.name, { hash, schema: tool.inputSchema, validateFn });
+    return validateFn;
+  }
+
+  /**
+   * Convert an Ajv error to a dotted-path issue
+   */
+  private static toIssue(error: ErrorObject): ArgumentValidationIssue {
+    const segments = error.instancePath.split("/").filter(Boolean);
+    if (error.keyword === "required" && typeof error.params.missingProperty === "string") {
+      segments.push(error.params.missingProperty);
+    }
+    if (error.keyword === "additionalProperties" && typeof error.params.additionalProperty === "string") {
+      segments.push(error.params.additionalProperty);
+    }
+
+    let message = error.message ?? "is invalid";
+    if (error.keyword === "enum" && Array.isArray(error.params.allowedValues)) {
+      message = `${message}: ${error.params.allowedValues.map((v: unknown) => JSON.stringify(v)).join(", ")}`;
+    }
+
+    return {
+      path: segments.length > 0 ? segments.join(".") : "(root)",
+      message,
+    };
+  }
+}
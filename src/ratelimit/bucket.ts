@@ -0,0 +1,98 @@
+import type { RateLimitRule } from "../types.js";
+
+/**
+ * Bucket count above which idle (full) buckets are discarded
+ */
+const MAX_BUCKETS = 10000;
+
+/**
+ * Token bucket holding up to capacity tokens, refilled continuously
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(
+    readonly capacity: number,
+    private readonly refillPerMs: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Tokens currently available
+   */
+  available(): number {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+    return this.tokens;
+  }
+
+  /**
+   * Milliseconds until count tokens are available (0 if they are now)
+   * Infinity when count exceeds the bucket's capacity
+   */
+  waitTime(count: number): number {
+    if (count > this.capacity) {
+      return Infinity;
+    }
+    const missing = count - this.available();
+    return missing <= 0 ? 0 : Math.ceil(missing / this.refillPerMs);
+  }
+
+  take(count: number): void {
+    this.tokens = this.available() - count;
+  }
+
+  get full(): boolean {
+    return this.available() >= this.capacity;
+  }
+}
+
+/**
+ * Token buckets by key, created on first use and bounded in number
+ */
+export class TokenBucketMap {
+  private readonly buckets: Map<string, TokenBucket> = new Map();
+
+  /**
+   * Get the bucket for a key, creating a full one for the rule if there is none
+   */
+  get(key: string, rule: RateLimitRule): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      if (this.buckets.size >= MAX_BUCKETS) {
+        this.prune();
+      }
+      bucket = new TokenBucket(TokenBucketMap.capacity(rule), rule.requestsPerMinute / 60000);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Get the bucket for a key without creating one
+   */
+  peek(key: string): TokenBucket | undefined {
+    return this.buckets.get(key);
+  }
+
+  /**
+   * Bucket size for a rule: its burst, or one minute's worth of requests
+   */
+  static capacity(rule: RateLimitRule): number {
+    return rule.burst ?? Math.max(1, Math.floor(rule.requestsPerMinute));
+  }
+
+  /**
+   * Discard full buckets; a new bucket starts full, so nothing is lost
+   */
+  private prune(): void {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.full) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,236 @@
+import type { DailyQuotaRule, RateLimitConfig, RateLimitRule } from "../types.js";
+import { compileGlob } from "../auth/policy.js";
+import { RateLimitError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+import { rateLimitedTotal } from "../utils/metrics.js";
+import { TokenBucketMap, type TokenBucket } from "./bucket.js";
+import { QuotaStore } from "./quota.js";
+
+/**
+ * Which kind of limit rejected a request
+ */
+type LimitKind = "user" | "tool" | "server" | "quota";
+
+/**
+ * Remaining capacity of one rate limit, as shown to users
+ */
+export interface RateLimitStatus {
+  requestsPerMinute: number;
+  limit: number;
+  remaining: number;
+}
+
+/**
+ * Everything limiting one user, as returned by GET /quota
+ */
+export interface UsageReport {
+  userId: string;
+  perUser: RateLimitStatus | null;
+  tools: Array<RateLimitStatus & { tools: string[]; perUser: boolean }>;
+  servers: Array<RateLimitStatus & { server: string; perUser: boolean }>;
+  dailyQuotas: Array<{
+    id: string;
+    tools: string[];
+    limit: number;
+    used: number;
+    remaining: number;
+    resetsAt: string;
+  }>;
+}
+
+/**
+ * A configured bucket rule and the key its buckets are stored under
+ */
+interface BucketRule {
+  kind: LimitKind;
+  label: string;
+  rule: RateLimitRule;
+  perUser: boolean;
+}
+
+/**
+ * Enforces per-user, per-tool and per-server token bucket limits and per-user daily quotas
+ * A request is checked against every applicable limit before any is consumed,
+ * so a rejected request never uses up capacity.
+ * toolServer maps a namespaced tool name to the server providing it, for per-server limits
+ */
+export class RateLimiter {
+  private readonly buckets = new TokenBucketMap();
+  private readonly userRule: BucketRule | null;
+  private readonly toolRules: Array<BucketRule & { tools: string[]; patterns: RegExp[] }>;
+  private readonly serverRules: Array<BucketRule & { server: string }>;
+  private readonly quotaRules: Array<{ id: string; rule: DailyQuotaRule; patterns: RegExp[] }>;
+  private readonly quotas: QuotaStore;
+
+  constructor(
+    config: RateLimitConfig,
+    private readonly toolServer: (toolName: string) => string | undefined
+  ) {
+    this.userRule = config.perUser
+      ? { kind: "user", label: "user", rule: config.perUser, perUser: true }
+      : null;
+    this.toolRules = config.tools.map((rule, index) => ({
+      kind: "tool",
+      label: `tools[${index}]`,
+      rule,
+      perUser: rule.perUser,
+      tools: rule.tools,
+      patterns: rule.tools.map(compileGlob),
+    }));
+    this.serverRules = config.servers.map((rule) => ({
+      kind: "server",
+      label: `server:${rule.server}`,
+      rule,
+      perUser: rule.perUser,
+      server: rule.server,
+    }));
+    this.quotaRules = config.dailyQuotas.map((rule, index) => ({
+      id: rule.id ?? `quota-${index}`,
+      rule,
+      patterns: rule.tools.map(compileGlob),
+    }));
+    this.quotas = new QuotaStore(config.quotaStorePath);
+
+    logger.info("Rate limiting initialized", {
+      perUser: config.perUser?.requestsPerMinute,
+      toolRules: this.toolRules.length,
+      serverRules: this.serverRules.length,
+      dailyQuotas: this.quotaRules.length,
+    });
+  }
+
+  /**
+   * Check and consume the limits for one request making the given tool calls
+   * Every limit, the per-user one included, is charged once per call.
+   * Throws RateLimitError, consuming nothing, when any limit is exhausted
+   */
+  consume(userId: string, toolNames: string[]): void {
+    if (toolNames.length === 0) {
+      return;
+    }
+
+    // Tokens needed per bucket, since several calls in a batch can share one bucket
+    const bucketCounts = new Map<string, { bucket: TokenBucket; rule: BucketRule; count: number }>();
+    const addBucket = (rule: BucketRule, count: number): void => {
+      const key = RateLimiter.bucketKey(rule, userId);
+      const entry = bucketCounts.get(key);
+      if (entry) {
+        entry.count += count;
+      } else {
+        bucketCounts.set(key, { bucket: this.buckets.get(key, rule.rule), rule, count });
+      }
+    };
+
+    if (this.userRule) {
+      addBucket(this.userRule, toolNames.length);
+    }
+    const quotaCounts = new Map<string, number>();
+    for (const toolName of toolNames) {
+      for (const rule of this.matchingToolRules(toolName)) {
+        addBucket(rule, 1);
+      }
+      for (const rule of this.matchingServerRules(toolName)) {
+        addBucket(rule, 1);
+      }
+      for (const quota of this.matchingQuotas(toolName)) {
+        quotaCounts.set(quota.id, (quotaCounts.get(quota.id) ?? 0) + 1);
+      }
+    }
+
+    for (const { bucket, rule, count } of bucketCounts.values()) {
+      const waitMs = bucket.waitTime(count);
+      if (waitMs > 0) {
+        this.reject(userId, rule.kind, `Rate limit exceeded (${rule.label})`, waitMs, { limit: rule.label });
+      }
+    }
+    for (const { id, rule } of this.quotaRules) {
+      const count = quotaCounts.get(id) ?? 0;
+      if (count > 0 && this.quotas.get(userId, id) + count > rule.limit) {
+        const resetsAt = QuotaStore.nextReset();
+        this.reject(userId, "quota", `Daily quota ${id} exhausted`, resetsAt.getTime() - Date.now(), {
+          quota: id,
+          limit: rule.limit,
+          resetsAt: resetsAt.toISOString(),
+        });
+      }
+    }
+
+    for (const { bucket, count } of bucketCounts.values()) {
+      bucket.take(count);
+    }
+    this.quotas.add(userId, quotaCounts);
+  }
+
+  /**
+   * Write quota counters that are waiting to be saved
+   */
+  async close(): Promise<void> {
+    await this.quotas.flush();
+  }
+
+  /**
+   * Report a user's remaining capacity under every limit that applies to them
+   */
+  getUsage(userId: string): UsageReport {
+    const status = (rule: BucketRule): RateLimitStatus => {
+      const bucket = this.buckets.peek(RateLimiter.bucketKey(rule, userId));
+      const limit = TokenBucketMap.capacity(rule.rule);
+      return {
+        requestsPerMinute: rule.rule.requestsPerMinute,
+        limit,
+        remaining: Math.floor(bucket ? bucket.available() : limit),
+      };
+    };
+    const resetsAt = QuotaStore.nextReset().toISOString();
+
+    return {
+      userId,
+      perUser: this.userRule ? status(this.userRule) : null,
+      tools: this.toolRules.map((rule) => ({ ...status(rule), tools: rule.tools, perUser: rule.perUser })),
+      servers: this.serverRules.map((rule) => ({ ...status(rule), server: rule.server, perUser: rule.perUser })),
+      dailyQuotas: this.quotaRules.map(({ id, rule }) => {
+        const used = this.quotas.get(userId, id);
+        return {
+          id,
+          tools: rule.tools,
+          limit: rule.limit,
+          used,
+          remaining: Math.max(0, rule.limit - used),
+          resetsAt,
+        };
+      }),
+    };
+  }
+
+  private matchingToolRules(toolName: string): BucketRule[] {
+    return this.toolRules.filter((rule) => rule.patterns.some((pattern) => pattern.test(toolName)));
+  }
+
+  private matchingServerRules(toolName: string): BucketRule[] {
+    const serverId = this.toolServer(toolName);
+    return this.serverRules.filter((rule) => rule.server === serverId);
+  }
+
+  private matchingQuotas(toolName: string): Array<{ id: string }> {
+    return this.quotaRules.filter((quota) => quota.patterns.some((pattern) => pattern.test(toolName)));
+  }
+
+  private reject(
+    userId: string,
+    kind: LimitKind,
+    message: string,
+    waitMs: number,
+    details: Record<string, unknown>
+  ): never {
+    rateLimitedTotal.inc({ limit: kind });
+    logger.warn(`Request rate limited`, { userId, ...details });
+
+    // A batch larger than the bucket can never pass; ask the caller to back off for a minute
+    const retryAfterSeconds = Number.isFinite(waitMs) ? Math.max(1, Math.ceil(waitMs / 1000)) : 60;
+    throw new RateLimitError(message, retryAfterSeconds, { ...details, retryAfterSeconds });
+  }
+
+  private static bucketKey(rule: BucketRule, userId: string): string {
+    return `${rule.label}:${rule.perUser ? userId : "*"}`;
+  }
+}
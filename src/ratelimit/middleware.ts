@@ -0,0 +1,61 @@
+import type { Response, NextFunction, RequestHandler } from "express";
+import type { AuthenticatedRequest } from "../types.js";
+import type { RateLimiter } from "./limiter.js";
+import { RateLimitError } from "../utils/errors.js";
+import { errorsTotal } from "../utils/metrics.js";
+
+/**
+ * User ID that requests are limited under when authentication is disabled
+ */
+export const ANONYMOUS_USER = "anonymous";
+
+/**
+ * Names of the tools called by a JSON-RPC message or batch
+ */
+function calledTools(body: unknown): string[] {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.flatMap((message) => {
+    if (message === null || typeof message !== "object") {
+      return [];
+    }
+    const { method, params } = message as { method?: unknown; params?: { name?: unknown } };
+    return method === "tools/call" && typeof params?.name === "string" ? [params.name] : [];
+  });
+}
+
+/**
+ * Create middleware that applies rate limits and daily quotas to the tool calls in MCP requests
+ * Requests without tool calls, such as initialize, tools/list and notifications, are not counted.
+ * Must run after the auth middleware; rejected requests get HTTP 429 with Retry-After
+ */
+export function createRateLimitMiddleware(limiter: RateLimiter): RequestHandler {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    const toolNames = calledTools(req.body);
+    if (toolNames.length === 0) {
+      next();
+      return;
+    }
+
+    try {
+      limiter.consume(req.user?.id ?? ANONYMOUS_USER, toolNames);
+      next();
+    } catch (error) {
+      if (!(error instanceof RateLimitError)) {
+        next(error);
+        return;
+      }
+
+      errorsTotal.inc({ code: error.code });
+      res.setHeader("Retry-After", String(error.retryAfterSeconds));
+      res.status(429).json({
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: error.message,
+          data: error.details,
+        },
+        id: null,
+      });
+    }
+  };
+}
@@ -0,0 +1,158 @@
+import { existsSync, mkdirSync, readFileSync } from "fs";
+import { rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { z } from "zod";
+import { logger } from "../utils/logger.js";
+
+// Delay before changed counters are written, so a burst of calls causes one write
+const SAVE_DELAY_MS = 1000;
+
+const StoredQuotasSchema = z.object({
+  day: z.string(),
+  usage: z.record(z.record(z.number().int().nonnegative())),
+});
+
+/**
+ * Current day in UTC as YYYY-MM-DD
+ */
+function utcDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Daily quota counters per user and quota rule, persisted to a JSON file
+ * Counters reset at midnight UTC. Changes are written in the background shortly
+ * after they are made; flush() writes them immediately
+ */
+export class QuotaStore {
+  private day = utcDay();
+  private usage: Map<string, Map<string, number>> = new Map();
+  private saveTimer: NodeJS.Timeout | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {
+    try {
+      mkdirSync(dirname(path), { recursive: true });
+    } catch (error) {
+      logger.error(`Failed to prepare quota store at ${path}`, error as Error);
+    }
+    this.load();
+  }
+
+  /**
+   * When the current quota day ends
+   */
+  static nextReset(now: Date = new Date()): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  }
+
+  /**
+   * Calls a user has made today under a quota rule
+   */
+  get(userId: string, ruleId: string): number {
+    this.rollover();
+    return this.usage.get(userId)?.get(ruleId) ?? 0;
+  }
+
+  /**
+   * Add calls to a user's counters and schedule them to be persisted
+   */
+  add(userId: string, counts: Map<string, number>): void {
+    if (counts.size === 0) {
+      return;
+    }
+
+    this.rollover();
+    let userUsage = this.usage.get(userId);
+    if (!userUsage) {
+      userUsage = new Map();
+      this.usage.set(userId, userUsage);
+    }
+    for (const [ruleId, count] of counts) {
+      userUsage.set(ruleId, (userUsage.get(ruleId) ?? 0) + count);
+    }
+    this.scheduleSave();
+  }
+
+  /**
+   * Write pending counters now and wait for any write in progress
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.enqueueSave();
+    }
+    await this.saving;
+  }
+
+  /**
+   * Drop yesterday's counters once the UTC day changes
+   */
+  private rollover(): void {
+    const today = utcDay();
+    if (today !== this.day) {
+      this.day = today;
+      this.usage.clear();
+    }
+  }
+
+  /**
+   * Load today's counters, ignoring counters from earlier days
+   */
+  private load(): void {
+    if (!existsSync(this.path)) {
+      return;
+    }
+
+    try {
+      const stored = StoredQuotasSchema.parse(JSON.parse(readFileSync(this.path, "utf-8")));
+      if (stored.day !== this.day) {
+        return;
+      }
+      for (const [userId, counters] of Object.entries(stored.usage)) {
+        this.usage.set(userId, new Map(Object.entries(counters)));
+      }
+      logger.info(`Loaded daily quota usage for ${this.usage.size} users from ${this.path}`);
+    } catch (error) {
+      logger.error(`Failed to load quota usage from ${this.path}`, error as Error);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.enqueueSave();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Queue a write after the one in progress, so writes never overlap
+   */
+  private enqueueSave(): void {
+    this.saving = this.saving.then(() => this.save());
+  }
+
+  /**
+   * Persist counters, writing a temporary file first so a crash never leaves a truncated store
+   */
+  private async save(): Promise<void> {
+    const stored = {
+      day: this.day,
+      usage: Object.fromEntries(
+        Array.from(this.usage, ([userId, counters]) => [userId, Object.fromEntries(counters)])
+      ),
+    };
+    const tempPath = `${this.path}.tmp`;
+    try {
+      await writeFile(tempPath, JSON.stringify(stored), { mode: 0o600 });
+      await rename(tempPath, this.path);
+    } catch (error) {
+      logger.error(`Failed to persist quota usage to ${this.path}`, error as Error);
+    }
+  }
+}
@@ -0,0 +1,245 @@
+import express, {
+  type NextFunction,
+  type Request,
+  type Response,
+  type RequestHandler,
+  type Router,
+} from "express";
+import type { AuthProvider } from "../auth/provider.js";
+import type { OAuthClientStore } from "../auth/clients.js";
+import type { OAuthTokenStore } from "../auth/tokens.js";
+import type { ServerPoolManager } from "../pool/manager.js";
+import type { AuditLog } from "../audit/log.js";
+import type {
+  AuditOutcome,
+  AuthenticatedRequest,
+  AuthenticatedUser,
+  PolicyAction,
+} from "../types.js";
+import { requireScopes } from "../auth/middleware.js";
+import { logger } from "../utils/logger.js";
+
+// Accepted values for the outcome filter on GET /audit
+const AUDIT_OUTCOMES: AuditOutcome[] = ["success", "error", "denied", "timeout", "cancelled"];
+
+/**
+ * Dependencies for the admin API
+ */
+export interface AdminDependencies {
+  authMiddleware: RequestHandler;
+  authProvider: AuthProvider;
+  poolManager: ServerPoolManager;
+  auditLog?: AuditLog;
+  oauthClients?: OAuthClientStore;
+  oauthTokens?: OAuthTokenStore;
+}
+
+/**
+ * Create the /admin router
+ * Every route requires an authenticated user with the "admin" scope
+ */
+export function createAdminRouter(deps: AdminDependencies): Router {
+  const router = express.Router();
+  router.use(deps.authMiddleware, requireScopes("admin"));
+
+  const { authProvider, poolManager, auditLog, oauthClients, oauthTokens } = deps;
+
+  // Static token lifecycle
+  router.get("/tokens", (_req: Request, res: Response) => {
+    res.json({ tokens: authProvider.listCredentials() });
+  });
+
+  router.post("/tokens/revoke", (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const revoked = authProvider.revokeToken({
+      token: typeof body.token === "string" ? body.token : undefined,
+      tokenHash: typeof body.tokenHash === "string" ? body.tokenHash : undefined,
+      tokenId: typeof body.tokenId === "string" ? body.tokenId : undefined,
+    });
+    res.json({ status: "revoked", entry: revoked });
+  });
+
+  // Policy test harness: show the decision for a user and tool without calling it
+  router.post("/policy/evaluate", (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const tool = typeof body.tool === "string" ? body.tool : undefined;
+    const action: PolicyAction = body.action === "list" ? "list" : "call";
+    const args =
+      body.arguments !== null && typeof body.arguments === "object"
+        ? (body.arguments as Record<string, unknown>)
+        : {};
+    const scopes = Array.isArray(body.scopes)
+      ? body.scopes.filter((scope): scope is string => typeof scope === "string")
+      : undefined;
+
+    if (!tool || (typeof body.userId !== "string" && !scopes)) {
+      res.status(400).json({
+        error: "INVALID_REQUEST",
+        message: "tool and either userId or scopes are required",
+      });
+      return;
+    }
+
+    // Known users are evaluated with their configured scopes unless scopes are given
+    const userId = typeof body.userId === "string" ? body.userId : "policy-test";
+    const known = authProvider.findUser(userId);
+    if (!known && !scopes) {
+      res.status(404).json({
+        error: "NOT_FOUND",
+        message: `User not found: ${userId}`,
+      });
+      return;
+    }
+    const user: AuthenticatedUser = {
+      id: userId,
+      email: known?.email ?? "",
+      name: known?.name ?? userId,
+      scopes: scopes ?? known?.scopes ?? [],
+    };
+
+    res.json({
+      user: { id: user.id, scopes: user.scopes },
+      tool,
+      action,
+      decision: poolManager.explainToolAccess(tool, action, user, args),
+    });
+  });
+
+  // Downstream server pool
+  router.get("/servers", (_req: Request, res: Response) => {
+    res.json({ servers: poolManager.getStatus() });
+  });
+
+  router.get("/servers/:serverId", (req: Request, res: Response) => {
+    res.json(poolManager.getServerDetails(req.params.serverId));
+  });
+
+  const serverActions: Record<string, (serverId: string) => Promise<unknown>> = {
+    start: (serverId) => poolManager.startServer(serverId),
+    stop: (serverId) => poolManager.stopServer(serverId),
+    restart: (serverId) => poolManager.restartServer(serverId),
+    enable: (serverId) => poolManager.setServerEnabled(serverId, true),
+    disable: (serverId) => poolManager.setServerEnabled(serverId, false),
+    refresh: (serverId) => poolManager.refreshServer(serverId),
+  };
+
+  router.post("/servers/:serverId/:action", (req: Request, res: Response, next: NextFunction) => {
+    const { serverId, action } = req.params;
+    const run = Object.hasOwn(serverActions, action) ? serverActions[action] : undefined;
+    if (!run) {
+      res.status(404).json({
+        error: "NOT_FOUND",
+        message: `Unknown server action: ${action}`,
+      });
+      return;
+    }
+
+    const user = (req as AuthenticatedRequest).user;
+    logger.info(`Admin requested ${action} of server ${serverId}`, { userId: user?.id });
+    run(serverId)
+      .then((changed) => {
+        res.json({
+          status: changed === false ? "unchanged" : "ok",
+          action,
+          server: poolManager.getServerDetails(serverId),
+        });
+      })
+      .catch(next);
+  });
+
+  // Tool result cache invalidation, narrowed by ?tool= (namespaced name) or ?server=
+  router.delete("/cache", (req: Request, res: Response, next: NextFunction) => {
+    const tool = typeof req.query.tool === "string" ? req.query.tool : undefined;
+    const serverId = typeof req.query.server === "string" ? req.query.server : undefined;
+
+    poolManager
+      .invalidateCache({ tool, serverId })
+      .then((removed) => {
+        if (removed === undefined) {
+          res.status(404).json({
+            error: "NOT_FOUND",
+            message: "Tool result cache is disabled",
+          });
+          return;
+        }
+        res.json({ status: "invalidated", tool, server: serverId, removed });
+      })
+      .catch(next);
+  });
+
+  // Tool invocation audit trail
+  if (auditLog) {
+    router.get("/audit", (req: Request, res: Response, next: NextFunction) => {
+      const query = req.query as Record<string, unknown>;
+      const text = (name: string): string | undefined =>
+        typeof query[name] === "string" && query[name] !== "" ? (query[name] as string) : undefined;
+
+      const since = text("since") ? new Date(text("since") as string) : undefined;
+      const until = text("until") ? new Date(text("until") as string) : undefined;
+      const limit = text("limit") ? Number(text("limit")) : undefined;
+      const outcome = text("outcome");
+
+      if (
+        (since && isNaN(since.getTime())) ||
+        (until && isNaN(until.getTime())) ||
+        (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) ||
+        (outcome !== undefined && !AUDIT_OUTCOMES.includes(outcome as AuditOutcome))
+      ) {
+        res.status(400).json({
+          error: "INVALID_REQUEST",
+          message: `since/until must be ISO timestamps, limit a positive integer and outcome one of ${AUDIT_OUTCOMES.join(", ")}`,
+        });
+        return;
+      }
+
+      auditLog
+        .query({
+          userId: text("userId"),
+          serverId: text("serverId"),
+          tool: text("tool"),
+          outcome: outcome as AuditOutcome | undefined,
+          since,
+          until,
+          limit,
+        })
+        .then((entries) => {
+          res.json({ count: entries.length, entries });
+        })
+        .catch(next);
+    });
+  }
+
+  // OAuth client management
+  if (oauthClients) {
+    router.get("/clients", (_req: Request, res: Response) => {
+      res.json({
+        clients: oauthClients.list().map((client) => ({
+          clientId: client.clientId,
+          clientName: client.clientName,
+          redirectUris: client.redirectUris,
+          scopes: client.scopes,
+          source: client.source,
+          issuedAt: client.issuedAt ? new Date(client.issuedAt * 1000).toISOString() : undefined,
+          usedAt: client.usedAt ? new Date(client.usedAt * 1000).toISOString() : undefined,
+        })),
+      });
+    });
+
+    router.delete("/clients/:clientId", (req: Request, res: Response) => {
+      const { clientId } = req.params;
+      if (!oauthClients.revoke(clientId)) {
+        res.status(404).json({
+          error: "NOT_FOUND",
+          message: `Client not found: ${clientId}`,
+        });
+        return;
+      }
+
+      const revokedTokens = oauthTokens?.revokeClient(clientId) ?? 0;
+      logger.info("Admin revoked OAuth client", { clientId, revokedTokens });
+      res.json({ status: "revoked", clientId, revokedTokens });
+    });
+  }
+
+  return router;
+}
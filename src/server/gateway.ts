@@ -1,7 +1,21 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  type ReadResourceResult,
+  type GetPromptResult,
+} from "@modelcontextprotocol/sdk/types.js";
 import type { ServerPoolManager } from "../pool/manager.js";
-import type { AuthenticatedUser } from "../types.js";
-import { logger } from "../utils/logger.js";
+import { ResourceAggregator } from "../pool/resources.js";
+import type { AuthenticatedUser, ToolCallOptions } from "../types.js";
+import { InvalidRequestError } from "../utils/errors.js";
+import { logger, redactString } from "../utils/logger.js";
+import { getRequestContext } from "../utils/context.js";
 
 // Type for MCP tool result content
 type TextContent = {
@@ -16,7 +30,7 @@ type ToolResult = {
 
 /**
  * Creates and configures the MCP Gateway Server
- * Dynamically registers all tools from the pool as individual handlers
+ * Proxies tools, resources and prompts from the pool
  */
 export function createGatewayServer(
   poolManager: ServerPoolManager,
@@ -27,74 +41,193 @@ export function createGatewayServer(
     version: "1.0.0",
   });
 
-  // Get tools available for this user
-  const tools = poolManager.getToolsForUser(user);
-
-  logger.info(`Creating gateway server with ${tools.length} tools`, {
+  logger.info(`Creating gateway server with ${poolManager.getToolsForUser(user).length} tools`, {
     userId: user?.id,
   });
 
-  // Register each tool from the pool
-  for (const tool of tools) {
-    // Use an empty shape - the tool accepts dynamic arguments
-    // that will be passed to the underlying MCP server
-    server.tool(
-      tool.name,
-      tool.description || `Tool: ${tool.name}`,
-      {}, // Empty shape - accepts any args via passthrough
-      async (args: Record<string, unknown>): Promise<ToolResult> => {
-        logger.info(`Tool call received`, {
-          tool: tool.name,
-          userId: user?.id,
-        });
-
-        try {
-          const result = await poolManager.routeToolCall(tool.name, args, user);
-
-          // The result from callTool should already be in MCP format
-          // If it has content array, return as-is; otherwise wrap it
-          if (
-            result &&
-            typeof result === "object" &&
-            "content" in result &&
-            Array.isArray((result as ToolResult).content)
-          ) {
-            return result as ToolResult;
-          }
-
-          // Wrap non-standard responses
-          return {
-            content: [
-              {
-                type: "text",
-                text:
-                  typeof result === "string"
-                    ? result
-                    : JSON.stringify(result, null, 2),
-              },
-            ],
-          };
-        } catch (error) {
-          const err = error instanceof Error ? error : new Error(String(error));
-          logger.error(`Tool call failed`, err, { tool: tool.name });
-
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Error: ${err.message}`,
-              },
-            ],
-            isError: true,
-          };
-        }
-      }
-    );
-  }
+  registerToolHandlers(server, poolManager, user);
+  registerResourceHandlers(server, poolManager, user);
+  registerPromptHandlers(server, poolManager, user);
 
   return server;
 }
 
+/**
+ * Register tool handlers that proxy to the pool
+ * Uses the low-level server so each tool's downstream JSON Schema is advertised verbatim
+ */
+function registerToolHandlers(
+  server: McpServer,
+  poolManager: ServerPoolManager,
+  user?: AuthenticatedUser
+): void {
+  server.server.registerCapabilities({ tools: { listChanged: true } });
+
+  server.server.setRequestHandler(ListToolsRequestSchema, () => ({
+    tools: poolManager.getToolsForUser(user).map((tool) => ({
+      name: tool.name,
+      description: tool.description || `Tool: ${tool.name}`,
+      inputSchema: tool.inputSchema,
+      annotations: tool.annotations,
+    })),
+  }));
+
+  server.server.setRequestHandler(CallToolRequestSchema, async (request, extra): Promise<ToolResult> => {
+    const name = request.params.name;
+    const args = request.params.arguments ?? {};
+    const progressToken = request.params._meta?.progressToken;
+
+    logger.info(`Tool call received`, {
+      tool: name,
+      userId: user?.id,
+    });
+
+    // Cancel downstream on notifications/cancelled (extra.signal) or when the HTTP client disconnects
+    const disconnectSignal = getRequestContext()?.signal;
+    const options: ToolCallOptions = {
+      signal: disconnectSignal ? AbortSignal.any([extra.signal, disconnectSignal]) : extra.signal,
+    };
+
+    // Relay downstream progress under the caller's own progress token
+    if (progressToken !== undefined) {
+      options.onProgress = (progress) => {
+        extra
+          .sendNotification({
+            method: "notifications/progress",
+            params: { ...progress, progressToken },
+          })
+          .catch((err) => {
+            logger.debug(`Failed to relay progress for ${name}`, { error: (err as Error).message });
+          });
+      };
+    }
+
+    try {
+      const result = await poolManager.routeToolCall(name, args, user, options);
+
+      // The result from callTool should already be in MCP format
+      // If it has content array, return as-is; otherwise wrap it
+      if (
+        result &&
+        typeof result === "object" &&
+        "content" in result &&
+        Array.isArray((result as ToolResult).content)
+      ) {
+        return result as ToolResult;
+      }
+
+      // Wrap non-standard responses
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              typeof result === "string"
+                ? result
+                : JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error(`Tool call failed`, err, { tool: name });
+
+      // Validation failures list the failing paths so the caller can correct its arguments
+      const text =
+        err instanceof InvalidRequestError
+          ? `Error: ${err.message}\n${JSON.stringify(err.toJSON(), null, 2)}`
+          : `Error: ${redactString(err.message)}`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text,
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+}
+
+/**
+ * Register resource handlers that proxy to the pool
+ * Uses the low-level server so downstream URIs and templates pass through unchanged
+ */
+function registerResourceHandlers(
+  server: McpServer,
+  poolManager: ServerPoolManager,
+  user?: AuthenticatedUser
+): void {
+  server.server.registerCapabilities({ resources: { listChanged: true } });
+
+  server.server.setRequestHandler(ListResourcesRequestSchema, () => ({
+    resources: poolManager.getResourcesForUser(user).map((resource) => ({
+      uri: resource.uri,
+      name: resource.name,
+      description: resource.description,
+      mimeType: resource.mimeType,
+    })),
+  }));
+
+  server.server.setRequestHandler(ListResourceTemplatesRequestSchema, () => ({
+    resourceTemplates: poolManager.getResourceTemplatesForUser(user).map((template) => ({
+      uriTemplate: template.uriTemplate,
+      name: template.name,
+      description: template.description,
+      mimeType: template.mimeType,
+    })),
+  }));
+
+  server.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const uri = request.params.uri;
+    logger.info(`Resource read received`, { uri, userId: user?.id });
+
+    const result = (await poolManager.routeResourceRead(uri, user)) as ReadResourceResult;
+
+    // Rewrite content URIs back into the gateway namespace
+    const parsed = ResourceAggregator.parseNamespacedUri(uri);
+    return {
+      ...result,
+      contents: result.contents.map((content) => ({
+        ...content,
+        uri: parsed ? ResourceAggregator.buildNamespacedUri(parsed.serverId, content.uri) : content.uri,
+      })),
+    };
+  });
+}
+
+/**
+ * Register prompt handlers that proxy to the pool
+ */
+function registerPromptHandlers(
+  server: McpServer,
+  poolManager: ServerPoolManager,
+  user?: AuthenticatedUser
+): void {
+  server.server.registerCapabilities({ prompts: { listChanged: true } });
+
+  server.server.setRequestHandler(ListPromptsRequestSchema, () => ({
+    prompts: poolManager.getPromptsForUser(user).map((prompt) => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments,
+    })),
+  }));
+
+  server.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const name = request.params.name;
+    logger.info(`Prompt request received`, { prompt: name, userId: user?.id });
+
+    return (await poolManager.routePromptGet(
+      name,
+      request.params.arguments,
+      user
+    )) as GetPromptResult;
+  });
+}
+
 /**
  * Creates a stateless gateway server factory that creates per-request servers
  */
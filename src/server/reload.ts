@@ -0,0 +1,176 @@
+import { getConfigPath, loadConfig, watchConfig } from "../config.js";
+import type { GatewayConfig } from "../types.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Config sections that are only read at startup
+ */
+const RESTART_ONLY_SECTIONS = [
+  "server",
+  "policies",
+  "audit",
+  "metrics",
+  "tracing",
+  "rateLimits",
+  "cache",
+  "pool",
+  "reload",
+] as const;
+
+/**
+ * A component that applies a new config in place
+ * Handlers run in registration order; a handler that throws stops the ones after it
+ */
+export interface ReloadHandler {
+  readonly name: string;
+  /** Config sections the handler applies, taken into the running config once it succeeds */
+  readonly sections: ReadonlyArray<keyof GatewayConfig>;
+  apply(next: GatewayConfig, previous: GatewayConfig): void | Promise<void>;
+}
+
+/**
+ * Reloads the gateway config on SIGHUP or when the config file changes
+ * The new file is validated in full before anything is applied, so an invalid
+ * config is rejected and the running one kept
+ */
+export class ConfigReloader {
+  private readonly handlers: ReloadHandler[] = [];
+  private current: GatewayConfig;
+  private running: Promise<boolean> | null = null;
+  private pending = false;
+  private stopWatching?: () => void;
+  private readonly onSighup = (): void => {
+    void this.reload("SIGHUP");
+  };
+
+  constructor(config: GatewayConfig) {
+    this.current = config;
+  }
+
+  /**
+   * The config currently in effect
+   */
+  get config(): GatewayConfig {
+    return this.current;
+  }
+
+  /**
+   * Append a handler to the end of the chain
+   */
+  addHandler(handler: ReloadHandler): void {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * Listen for SIGHUP and, when enabled, watch the config file
+   */
+  start(): void {
+    process.on("SIGHUP", this.onSighup);
+
+    const path = getConfigPath();
+    const reloadConfig = this.current.reload;
+    if (reloadConfig?.watch && path) {
+      this.stopWatching = watchConfig(path, reloadConfig.intervalMs, () => {
+        void this.reload("file changed");
+      });
+      logger.info(`Watching ${path} for config changes`, { intervalMs: reloadConfig.intervalMs });
+    }
+  }
+
+  /**
+   * Stop listening for reload triggers
+   */
+  stop(): void {
+    process.off("SIGHUP", this.onSighup);
+    this.stopWatching?.();
+    this.stopWatching = undefined;
+  }
+
+  /**
+   * Load, validate and apply the config, resolving to whether it was applied
+   * A trigger that arrives mid-reload queues exactly one more reload
+   */
+  async reload(reason: string): Promise<boolean> {
+    if (this.running) {
+      this.pending = true;
+      return this.running;
+    }
+
+    this.running = this.apply(reason);
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+      if (this.pending) {
+        this.pending = false;
+        void this.reload("queued change");
+      }
+    }
+  }
+
+  private async apply(reason: string): Promise<boolean> {
+    logger.info(`Reloading configuration (${reason})`);
+
+    let next: GatewayConfig;
+    try {
+      next = loadConfig();
+    } catch (error) {
+      logger.error("Config reload rejected, keeping the running configuration", error as Error);
+      return false;
+    }
+
+    const previous = this.current;
+    const restartOnly = ConfigReloader.changedRestartOnlySections(previous, next);
+    if (restartOnly.length > 0) {
+      logger.warn("Some config changes take effect only after a restart", { sections: restartOnly });
+    }
+
+    // Track what is actually in effect, so a partial failure leaves the next reload
+    // comparing against the running state rather than the old file
+    let applied: GatewayConfig = previous;
+    for (const handler of this.handlers) {
+      try {
+        await handler.apply(next, applied);
+      } catch (error) {
+        this.current = applied;
+        logger.error(`Config reload failed applying ${handler.name}`, error as Error, {
+          applied: this.handlers.slice(0, this.handlers.indexOf(handler)).map((h) => h.name),
+        });
+        return false;
+      }
+      applied = ConfigReloader.withSections(applied, next, handler.sections);
+    }
+
+    this.current = next;
+    logger.info("Configuration reloaded");
+    return true;
+  }
+
+  /**
+   * Copy the given sections of one config over another
+   */
+  private static withSections(
+    base: GatewayConfig,
+    source: GatewayConfig,
+    sections: ReadonlyArray<keyof GatewayConfig>
+  ): GatewayConfig {
+    const merged = { ...base };
+    for (const section of sections) {
+      Object.assign(merged, { [section]: source[section] });
+    }
+    return merged;
+  }
+
+  /**
+   * Startup-only sections whose contents differ between two configs
+   */
+  private static changedRestartOnlySections(previous: GatewayConfig, next: GatewayConfig): string[] {
+    const changed: string[] = RESTART_ONLY_SECTIONS.filter(
+      (section) => JSON.stringify(previous[section]) !== JSON.stringify(next[section])
+    );
+    if (JSON.stringify(previous.auth.oauth) !== JSON.stringify(next.auth.oauth)) {
+      changed.push("auth.oauth");
+    }
+    return changed;
+  }
+}
@@ -0,0 +1,202 @@
+import { randomUUID } from "crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { AuthenticatedUser, SessionConfig } from "../types.js";
+import type { GatewayServerFactory } from "./gateway.js";
+import { SessionLimitError, SessionNotFoundError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+// Upper bound on how often idle sessions are swept (1 minute)
+const MAX_SWEEP_INTERVAL_MS = 60000;
+
+/**
+ * An active stateful MCP session
+ */
+export interface GatewaySession {
+  id: string;
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  userId?: string;
+  /** Identity of the credential that opened the session, see credentialKey */
+  credential: string;
+  createdAt: number;
+  lastActivity: number;
+}
+
+/**
+ * Registry of stateful Streamable HTTP sessions keyed by Mcp-Session-Id
+ * Each session keeps one gateway server for its whole lifetime
+ */
+export class SessionManager {
+  private sessions: Map<string, GatewaySession> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly factory: GatewayServerFactory,
+    private readonly config: SessionConfig
+  ) {}
+
+  /**
+   * Start periodic expiry of idle sessions
+   */
+  start(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+    const interval = Math.min(this.config.idleTimeoutMs, MAX_SWEEP_INTERVAL_MS);
+    this.sweepTimer = setInterval(() => {
+      void this.expireIdleSessions();
+    }, interval);
+    this.sweepTimer.unref();
+
+    logger.info("Session manager started", {
+      idleTimeoutMs: this.config.idleTimeoutMs,
+      maxSessions: this.config.maxSessions,
+    });
+  }
+
+  /**
+   * Stop the sweeper and close every session
+   */
+  async stop(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    await Promise.all(Array.from(this.sessions.keys()).map((id) => this.close(id)));
+  }
+
+  /**
+   * Look up a session for a user, refreshing its idle timer
+   * Sessions opened by another user, or by a credential of the same user with a different
+   * client, token or scopes, are reported as not found
+   */
+  get(sessionId: string, user?: AuthenticatedUser): GatewaySession {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.credential !== SessionManager.credentialKey(user)) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  /**
+   * Create a transport for a new session
+   * The session is registered once the client's initialize request is handled
+   */
+  async create(user?: AuthenticatedUser): Promise<StreamableHTTPServerTransport> {
+    if (this.sessions.size >= this.config.maxSessions) {
+      throw new SessionLimitError(this.config.maxSessions);
+    }
+
+    const server = this.factory.createServer(user);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        const now = Date.now();
+        this.sessions.set(sessionId, {
+          id: sessionId,
+          transport,
+          server,
+          userId: user?.id,
+          credential: SessionManager.credentialKey(user),
+          createdAt: now,
+          lastActivity: now,
+        });
+        logger.info("Session created", { sessionId, userId: user?.id });
+      },
+    });
+
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && this.sessions.delete(sessionId)) {
+        logger.info("Session closed", { sessionId, userId: user?.id });
+      }
+    };
+
+    await server.connect(transport);
+    return transport;
+  }
+
+  /**
+   * Close a session and release its gateway server
+   */
+  async close(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      logger.error("Error closing session", error as Error, { sessionId });
+    }
+  }
+
+  /**
+   * Tell every active session that the tool, resource and prompt lists changed
+   */
+  notifyListChanged(): void {
+    for (const session of this.sessions.values()) {
+      if (!session.server.isConnected()) {
+        continue;
+      }
+
+      const lowLevel = session.server.server;
+      Promise.all([
+        lowLevel.sendToolListChanged(),
+        lowLevel.sendResourceListChanged(),
+        lowLevel.sendPromptListChanged(),
+      ]).catch((error) => {
+        logger.error("Failed to notify session of list change", error as Error, {
+          sessionId: session.id,
+        });
+      });
+    }
+
+    if (this.sessions.size > 0) {
+      logger.debug("Sent list_changed notifications", { sessionCount: this.sessions.size });
+    }
+  }
+
+  /**
+   * Get all active sessions
+   */
+  getSessions(): GatewaySession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Get count of active sessions
+   */
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Identify the credential a request was authenticated with
+   * The session's gateway server is built from the user's scopes at initialize, so a request
+   * with narrower scopes, or scopes changed by a config reload, must not reuse it
+   */
+  private static credentialKey(user?: AuthenticatedUser): string {
+    if (!user) {
+      return "";
+    }
+    return JSON.stringify([user.id, user.clientId ?? null, user.tokenName ?? null, [...user.scopes].sort()]);
+  }
+
+  /**
+   * Close sessions that have been idle longer than the configured timeout
+   */
+  private async expireIdleSessions(): Promise<void> {
+    const cutoff = Date.now() - this.config.idleTimeoutMs;
+    const expired = this.getSessions().filter((session) => session.lastActivity < cutoff);
+
+    for (const session of expired) {
+      logger.info("Expiring idle session", { sessionId: session.id, userId: session.userId });
+      await this.close(session.id);
+    }
+  }
+}
@@ -1,24 +1,101 @@
-import express, { type Express, type Request, type Response, type NextFunction } from "express";
+import { randomUUID } from "crypto";
+import express, {
+  type Express,
+  type Request,
+  type Response,
+  type NextFunction,
+  type RequestHandler,
+} from "express";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import type { GatewayConfig, AuthenticatedRequest, HealthStatus } from "../types.js";
 import { AuthProvider } from "../auth/provider.js";
-import { createAuthMiddleware } from "../auth/middleware.js";
+import { createAuthMiddleware, requireScopes } from "../auth/middleware.js";
+import { OAuthServer } from "../auth/oauth.js";
+import { OAuthTokenStore } from "../auth/tokens.js";
+import { OAuthClientStore } from "../auth/clients.js";
 import { GatewayServerFactory } from "./gateway.js";
+import { SessionManager } from "./sessions.js";
+import { createAdminRouter } from "./admin.js";
+import type { ConfigReloader } from "./reload.js";
 import { ServerPoolManager } from "../pool/manager.js";
-import { GatewayError } from "../utils/errors.js";
-import { logger } from "../utils/logger.js";
+import type { AuditLog } from "../audit/log.js";
+import { RateLimiter } from "../ratelimit/limiter.js";
+import { ANONYMOUS_USER, createRateLimitMiddleware } from "../ratelimit/middleware.js";
+import { GatewayError, InvalidRequestError } from "../utils/errors.js";
+import { logger, redactString } from "../utils/logger.js";
+import { activeSessions, errorsTotal, metrics } from "../utils/metrics.js";
+import { tracer } from "../utils/tracing.js";
 
 const startTime = Date.now();
 
+// Accepted format for caller-supplied X-Request-Id headers
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+
+/**
+ * The Express application and a hook releasing what it holds
+ */
+export interface GatewayApp {
+  app: Express;
+  /** Close sessions and flush pending state on shutdown */
+  close(): Promise<void>;
+}
+
 /**
  * Create and configure the Express application
  */
-export function createApp(config: GatewayConfig, poolManager: ServerPoolManager): Express {
+export function createApp(
+  config: GatewayConfig,
+  poolManager: ServerPoolManager,
+  auditLog?: AuditLog,
+  reloader?: ConfigReloader
+): GatewayApp {
   const app = express();
+  const closeHandlers: Array<() => Promise<void>> = [];
 
   // Middleware
   app.use(express.json());
 
+  // Request context: every request gets a request ID and a server span,
+  // continuing the caller's trace when a traceparent header is sent
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    const incomingId = req.headers["x-request-id"];
+    const requestId =
+      typeof incomingId === "string" && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : randomUUID();
+    const traceparent = req.headers.traceparent;
+    const abortController = new AbortController();
+
+    tracer.runRequest(
+      `${req.method} ${req.path}`,
+      {
+        requestId,
+        traceparent: typeof traceparent === "string" ? traceparent : undefined,
+        signal: abortController.signal,
+        attributes: {
+          "http.request.method": req.method,
+          "url.path": req.path,
+          "user_agent.original": req.headers["user-agent"],
+        },
+      },
+      (span) => {
+        res.setHeader("X-Request-Id", requestId);
+        // "close" also fires for aborted requests and long-lived SSE streams
+        res.on("close", () => {
+          // Closed before the response finished: the client went away, so cancel in-flight downstream calls
+          if (!res.writableFinished) {
+            abortController.abort(new Error("Client disconnected"));
+          }
+          span.setAttributes({ "http.response.status_code": res.statusCode });
+          if (res.statusCode >= 500) {
+            span.recordError(`HTTP ${res.statusCode}`);
+          }
+          span.end();
+        });
+        next();
+      }
+    );
+  });
+
   // Request logging middleware
   app.use((req: Request, _res: Response, next: NextFunction) => {
     logger.debug(`${req.method} ${req.path}`, {
@@ -27,24 +104,114 @@ export function createApp(config: GatewayConfig, poolManager: ServerPoolManager)
     next();
   });
 
+  // Built-in OAuth authorization server (optional)
+  const oauthConfig = config.auth.oauth;
+  const oauthTokens = oauthConfig?.enabled ? new OAuthTokenStore(oauthConfig) : undefined;
+  const oauthClients = oauthConfig?.enabled ? new OAuthClientStore(oauthConfig) : undefined;
+
   // Auth provider
-  const authProvider = new AuthProvider(config.auth);
-  const authMiddleware = createAuthMiddleware(authProvider);
+  const authProvider = new AuthProvider(config.auth, oauthTokens);
+  const authMiddleware = createAuthMiddleware(authProvider, {
+    resourceMetadataUrl: `${config.server.baseUrl}/.well-known/oauth-protected-resource`,
+  });
+  reloader?.addHandler({
+    name: "auth",
+    sections: ["auth"],
+    apply: (next) => authProvider.reload(next.auth),
+  });
+
+  if (oauthConfig?.enabled && oauthTokens && oauthClients) {
+    const oauthServer = new OAuthServer(
+      oauthConfig,
+      config.server.baseUrl,
+      authProvider,
+      oauthTokens,
+      oauthClients
+    );
+    app.use(oauthServer.createRouter());
+  }
+
+  // Admin API (requires the "admin" scope)
+  app.use(
+    "/admin",
+    createAdminRouter({
+      authMiddleware,
+      authProvider,
+      poolManager,
+      auditLog,
+      oauthClients,
+      oauthTokens,
+    })
+  );
 
   // Gateway server factory
   const gatewayFactory = new GatewayServerFactory(poolManager);
 
+  // Session registry (stateful mode only)
+  const sessionConfig = config.server.sessions;
+  let sessionManager: SessionManager | undefined;
+  if (sessionConfig?.mode === "stateful") {
+    const manager = new SessionManager(gatewayFactory, sessionConfig);
+    manager.start();
+    poolManager.on("aggregationChanged", () => manager.notifyListChanged());
+    closeHandlers.push(() => manager.stop());
+    sessionManager = manager;
+  }
+
+  // Verbose health includes server stderr, so it needs the "admin" scope when auth is on
+  const requireAdmin = requireScopes("admin");
+  const verboseHealthAuth: RequestHandler = (req, res, next) => {
+    if (req.query.verbose === undefined || !authProvider.isEnabled()) {
+      next();
+      return;
+    }
+    authMiddleware(req, res, (error?: unknown) => (error ? next(error) : requireAdmin(req, res, next)));
+  };
+
   // Health check endpoint (no auth required)
-  app.get("/health", (_req: Request, res: Response) => {
+  // Degraded when no server is connected or idle, or any server's circuit breaker is open
+  app.get("/health", verboseHealthAuth, (req: Request, res: Response) => {
+    const servers =
+      req.query.verbose !== undefined ? poolManager.getAllServerDetails() : poolManager.getStatus();
+    const degraded =
+      servers.every((server) => !server.connected && !server.idle) ||
+      servers.some((server) => server.circuit === "open");
     const status: HealthStatus = {
-      status: poolManager.connectedCount > 0 ? "ok" : "degraded",
+      status: degraded ? "degraded" : "ok",
       uptime: Math.floor((Date.now() - startTime) / 1000),
-      servers: poolManager.getStatus(),
+      activeSessions: sessionManager?.size,
+      servers,
       timestamp: new Date().toISOString(),
     };
     res.json(status);
   });
 
+  // Prometheus metrics, behind the "metrics" scope unless requireAuth is turned off
+  const metricsConfig = config.metrics;
+  if (metricsConfig?.enabled) {
+    metrics.onCollect(() => activeSessions.set({}, sessionManager?.size ?? 0));
+
+    const metricsAuth: RequestHandler[] = metricsConfig.requireAuth
+      ? [authMiddleware, requireScopes("metrics")]
+      : [];
+    app.get("/metrics", ...metricsAuth, (_req: Request, res: Response) => {
+      res.type("text/plain; version=0.0.4; charset=utf-8").send(metrics.render());
+    });
+  }
+
+  // Rate limits and daily quotas for MCP requests, plus the caller's remaining allowance
+  const rateLimitConfig = config.rateLimits;
+  const rateLimit: RequestHandler[] = [];
+  if (rateLimitConfig?.enabled) {
+    const rateLimiter = new RateLimiter(rateLimitConfig, (toolName) => poolManager.getToolServer(toolName));
+    rateLimit.push(createRateLimitMiddleware(rateLimiter));
+    closeHandlers.push(() => rateLimiter.close());
+
+    app.get("/quota", authMiddleware, (req: AuthenticatedRequest, res: Response) => {
+      res.json(rateLimiter.getUsage(req.user?.id ?? ANONYMOUS_USER));
+    });
+  }
+
   // OAuth Protected Resource Metadata (RFC 9728)
   app.get("/.well-known/oauth-protected-resource", (_req: Request, res: Response) => {
     res.json({
@@ -106,8 +273,59 @@ export function createApp(config: GatewayConfig, poolManager: ServerPoolManager)
     res.type("html").send(html);
   });
 
+  if (sessionManager) {
+    registerStatefulRoutes(app, authMiddleware, rateLimit, sessionManager);
+  } else {
+    registerStatelessRoutes(app, authMiddleware, rateLimit, gatewayFactory);
+  }
+
+  // Error handling middleware
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    logger.error("Unhandled error", err);
+    errorsTotal.inc({ code: err instanceof GatewayError ? err.code : "INTERNAL_ERROR" });
+
+    if (err instanceof GatewayError) {
+      res.status(err.statusCode).json({
+        error: err.code,
+        message: err.message,
+        details: err.details,
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: "INTERNAL_ERROR",
+      message: "An unexpected error occurred",
+    });
+  });
+
+  // 404 handler
+  app.use((_req: Request, res: Response) => {
+    res.status(404).json({
+      error: "NOT_FOUND",
+      message: "Endpoint not found",
+    });
+  });
+
+  return {
+    app,
+    close: async () => {
+      await Promise.all(closeHandlers.map((close) => close()));
+    },
+  };
+}
+
+/**
+ * Register stateless MCP routes: a fresh gateway server per request
+ */
+function registerStatelessRoutes(
+  app: Express,
+  authMiddleware: RequestHandler,
+  rateLimit: RequestHandler[],
+  gatewayFactory: GatewayServerFactory
+): void {
   // MCP Streamable HTTP endpoint
-  app.post("/mcp", authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  app.post("/mcp", authMiddleware, ...rateLimit, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const user = req.user;
       const server = gatewayFactory.createServer(user);
@@ -181,33 +399,99 @@ export function createApp(config: GatewayConfig, poolManager: ServerPoolManager)
     // Stateless mode - no session to close
     res.status(200).json({ status: "ok" });
   });
+}
 
-  // Error handling middleware
-  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
-    logger.error("Unhandled error", err);
+/**
+ * Register stateful MCP routes: one gateway server per Mcp-Session-Id
+ */
+function registerStatefulRoutes(
+  app: Express,
+  authMiddleware: RequestHandler,
+  rateLimit: RequestHandler[],
+  sessionManager: SessionManager
+): void {
+  // MCP Streamable HTTP endpoint
+  app.post("/mcp", authMiddleware, ...rateLimit, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
 
-    if (err instanceof GatewayError) {
-      res.status(err.statusCode).json({
-        error: err.code,
-        message: err.message,
-        details: err.details,
-      });
-      return;
+      if (sessionId) {
+        const session = sessionManager.get(sessionId, req.user);
+        await session.transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        throw new InvalidRequestError("Missing Mcp-Session-Id header");
+      }
+
+      const transport = await sessionManager.create(req.user);
+      await transport.handleRequest(req, res, req.body);
+
+      // Initialization failed - nothing registered, release the transport
+      if (!transport.sessionId) {
+        await transport.close();
+      }
+    } catch (error) {
+      sendMcpError(res, error, "MCP request error");
     }
+  });
 
-    res.status(500).json({
-      error: "INTERNAL_ERROR",
-      message: "An unexpected error occurred",
-    });
+  // GET endpoint for SSE (server-initiated notifications)
+  app.get("/mcp", authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const session = sessionManager.get(requireSessionId(req), req.user);
+      await session.transport.handleRequest(req, res);
+    } catch (error) {
+      sendMcpError(res, error, "MCP GET request error");
+    }
   });
 
-  // 404 handler
-  app.use((_req: Request, res: Response) => {
-    res.status(404).json({
-      error: "NOT_FOUND",
-      message: "Endpoint not found",
-    });
+  // DELETE endpoint for session close
+  app.delete("/mcp", authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const session = sessionManager.get(requireSessionId(req), req.user);
+      await session.transport.handleRequest(req, res);
+      await sessionManager.close(session.id);
+    } catch (error) {
+      sendMcpError(res, error, "MCP DELETE request error");
+    }
   });
+}
 
-  return app;
+/**
+ * Read the Mcp-Session-Id header, rejecting requests without one
+ */
+function requireSessionId(req: AuthenticatedRequest): string {
+  const sessionId = req.headers["mcp-session-id"];
+  if (typeof sessionId !== "string" || sessionId.length === 0) {
+    throw new InvalidRequestError("Missing Mcp-Session-Id header");
+  }
+  return sessionId;
+}
+
+/**
+ * Send a JSON-RPC error response for a failed MCP request
+ */
+function sendMcpError(res: Response, error: unknown, context: string): void {
+  const err = error instanceof Error ? error : new Error(String(error));
+  const statusCode = err instanceof GatewayError ? err.statusCode : 500;
+  errorsTotal.inc({ code: err instanceof GatewayError ? err.code : "INTERNAL_ERROR" });
+
+  if (!(err instanceof GatewayError)) {
+    logger.error(context, err);
+  } else {
+    logger.warn(context, { error: err.message });
+  }
+
+  if (!res.headersSent) {
+    res.status(statusCode).json({
+      jsonrpc: "2.0",
+      error: {
+        code: statusCode === 500 ? -32603 : -32000,
+        message: redactString(err.message),
+      },
+      id: null,
+    });
+  }
 }
@@ -1,16 +1,40 @@
 import type { Request } from "express";
 
+/**
+ * Named static token belonging to a user
+ * Either token (plaintext) or tokenHash ("sha256:<hex>") must be set
+ */
+export interface UserTokenConfig {
+  name: string;
+  token?: string;
+  tokenHash?: string;
+  expiresAt?: string;
+}
+
 /**
  * User configuration for static authentication
+ * The top-level token/tokenHash/expiresAt form a token named "default"
  */
 export interface UserConfig {
   id: string;
   email: string;
   name: string;
-  token: string;
+  token?: string;
+  tokenHash?: string;
+  expiresAt?: string;
+  tokens?: UserTokenConfig[];
   scopes: string[];
 }
 
+/**
+ * Streamable HTTP session configuration
+ */
+export interface SessionConfig {
+  mode: "stateless" | "stateful";
+  idleTimeoutMs: number;
+  maxSessions: number;
+}
+
 /**
  * Server configuration
  */
@@ -18,6 +42,64 @@ export interface ServerConfig {
   port: number;
   host: string;
   baseUrl: string;
+  sessions?: SessionConfig;
+}
+
+/**
+ * OAuth client allowed to use the built-in authorization server
+ */
+export interface OAuthClientConfig {
+  clientId: string;
+  clientName?: string;
+  redirectUris: string[];
+  scopes?: string[];
+}
+
+/**
+ * Built-in OAuth 2.1 authorization server configuration
+ * endpointRateLimit (/authorize and /token) and registrationRateLimit (/register)
+ * apply per client IP; null turns them off
+ */
+export interface OAuthConfig {
+  enabled: boolean;
+  accessTokenTtlSeconds: number;
+  refreshTokenTtlSeconds: number;
+  authorizationCodeTtlSeconds: number;
+  clients: OAuthClientConfig[];
+  dynamicRegistration: boolean;
+  maxRegisteredClients: number;
+  clientStorePath?: string;
+  endpointRateLimit: RateLimitRule | null;
+  registrationRateLimit: RateLimitRule | null;
+}
+
+/**
+ * JWT claim names mapped onto the authenticated user
+ */
+export interface JwtClaimMapping {
+  id: string;
+  email: string;
+  name: string;
+  scopes: string;
+}
+
+/**
+ * External identity provider (OIDC) JWT validation configuration
+ * Exactly one of jwksUrl or jwksPath must be set. User IDs are the id claim behind
+ * userIdPrefix, so IdP subjects cannot collide with static user IDs
+ */
+export interface JwtConfig {
+  enabled: boolean;
+  issuer: string;
+  audience: string | string[];
+  jwksUrl?: string;
+  jwksPath?: string;
+  jwksCacheSeconds: number;
+  clockSkewSeconds: number;
+  algorithms: string[];
+  claims: JwtClaimMapping;
+  defaultScopes: string[];
+  userIdPrefix: string;
 }
 
 /**
@@ -26,21 +108,343 @@ export interface ServerConfig {
 export interface AuthConfig {
   enabled: boolean;
   users: UserConfig[];
+  oauth?: OAuthConfig;
+  jwt?: JwtConfig;
+  revokedTokens?: string[];
+  revocationListPath?: string;
+}
+
+/**
+ * Restart policy for supervised MCP servers
+ */
+export interface RestartPolicy {
+  enabled: boolean;
+  maxRestarts: number;
+  windowMs: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Timeouts for tool calls to a downstream server
+ * Per-tool entries are keyed by the downstream (un-namespaced) tool name
+ */
+export interface ToolTimeoutPolicy {
+  toolCallMs: number;
+  tools?: Record<string, number>;
+  resetOnProgress: boolean;
+  maxTotalMs?: number;
+}
+
+/**
+ * Concurrency limit and queue for tool calls to a downstream server
+ * Calls are not limited when maxInFlight is unset
+ */
+export interface ConcurrencyPolicy {
+  maxInFlight?: number;
+  maxQueue: number;
+  queueTimeoutMs: number;
 }
 
 /**
- * Local MCP server configuration
+ * Circuit breaker around tool calls to a downstream server
+ * Opens when at least failureRateThreshold of the last windowSize calls failed
+ * (once minimumCalls have been seen), and probes again after openDurationMs
+ */
+export interface CircuitBreakerPolicy {
+  enabled: boolean;
+  windowSize: number;
+  minimumCalls: number;
+  failureRateThreshold: number;
+  openDurationMs: number;
+  halfOpenProbes: number;
+}
+
+/**
+ * Circuit breaker state
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * How the gateway connects to a downstream server
+ */
+export type ServerTransport = "stdio" | "streamable-http" | "sse";
+
+/**
+ * When a server is started: at boot, or on its first tool call
+ */
+export type ServerStartMode = "eager" | "lazy";
+
+/**
+ * Capabilities declared in config, listed for a lazy server before it has ever run
  */
-export interface McpServerConfig {
+export interface ServerManifest {
+  tools: McpTool[];
+}
+
+/**
+ * Settings shared by every downstream server, whatever its transport
+ */
+interface BaseServerConfig {
   id: string;
   name: string;
   description?: string;
+  enabled: boolean;
+  requiredScopes?: string[];
+  restart?: RestartPolicy;
+  timeouts?: ToolTimeoutPolicy;
+  concurrency?: ConcurrencyPolicy;
+  circuitBreaker?: CircuitBreakerPolicy;
+  startMode?: ServerStartMode;
+  idleTimeoutMs?: number;
+  manifest?: ServerManifest;
+}
+
+/**
+ * Local MCP server spawned as a child process and spoken to over stdio
+ */
+export interface StdioServerConfig extends BaseServerConfig {
+  transport: "stdio";
   command: string;
   args: string[];
   cwd?: string;
   env?: Record<string, string>;
+}
+
+/**
+ * Remote MCP server reached over Streamable HTTP or legacy HTTP+SSE
+ */
+export interface RemoteServerConfig extends BaseServerConfig {
+  transport: Exclude<ServerTransport, "stdio">;
+  url: string;
+  headers?: Record<string, string>;
+  bearerToken?: string;
+}
+
+/**
+ * Downstream MCP server configuration
+ */
+export type McpServerConfig = StdioServerConfig | RemoteServerConfig;
+
+/**
+ * Progress reported by a downstream server during a tool call
+ */
+export interface ToolCallProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Per-call options threaded from the caller down to the server client
+ */
+export interface ToolCallOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ToolCallProgress) => void;
+}
+
+/**
+ * Tool access being authorized: seeing a tool in tools/list, or calling it
+ */
+export type PolicyAction = "list" | "call";
+
+/**
+ * Constraint on a single tool call argument
+ * Every operator that is set must hold
+ */
+export interface ArgumentConstraint {
+  equals?: string | number | boolean;
+  oneOf?: Array<string | number | boolean>;
+  prefix?: string;
+  pathPrefix?: string;
+  pattern?: string;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Allow or deny rule for tools matching a name glob
+ * A rule without users or scopes applies to everyone
+ */
+export interface PolicyRule {
+  id?: string;
+  effect: "allow" | "deny";
+  tools: string[];
+  users?: string[];
+  scopes?: string[];
+  actions: PolicyAction[];
+  arguments?: Record<string, ArgumentConstraint>;
+}
+
+/**
+ * Fine-grained tool authorization policy
+ */
+export interface PolicyConfig {
+  enforceToolScopes: boolean;
+  defaultEffect: "allow" | "deny";
+  rules: PolicyRule[];
+}
+
+/**
+ * Outcome of a policy evaluation
+ */
+export interface PolicyDecision {
+  allowed: boolean;
+  reason: string;
+  rule?: string;
+}
+
+/**
+ * Tool invocation audit log configuration
+ */
+export interface AuditConfig {
   enabled: boolean;
-  requiredScopes?: string[];
+  path: string;
+  maxFileBytes: number;
+  maxFiles: number;
+  maxValueLength: number;
+}
+
+/**
+ * Outcome of an audited tool call
+ */
+export type AuditOutcome = "success" | "error" | "denied" | "timeout" | "cancelled";
+
+/**
+ * A single audit log entry
+ */
+export interface AuditEntry {
+  ts: string;
+  userId?: string;
+  clientId?: string;
+  tokenName?: string;
+  tool: string;
+  serverId?: string;
+  arguments: unknown;
+  outcome: AuditOutcome;
+  errorCode?: string;
+  error?: string;
+  durationMs: number;
+  traceId?: string;
+  cached?: boolean;
+}
+
+/**
+ * Secret redaction for logs and error payloads
+ * Adds to the built-in secret key names and credential patterns
+ */
+export interface RedactionConfig {
+  keys: string[];
+  patterns: string[];
+}
+
+/**
+ * Prometheus metrics endpoint configuration
+ */
+export interface MetricsConfig {
+  enabled: boolean;
+  requireAuth: boolean;
+}
+
+/**
+ * Server pool settings
+ * manifestCachePath stores the last tool list of lazy and idle-stopped servers
+ */
+export interface PoolConfig {
+  manifestCachePath: string;
+}
+
+/**
+ * Config hot reload settings
+ * SIGHUP always triggers a reload; watch also polls the config file for changes
+ */
+export interface ReloadConfig {
+  watch: boolean;
+  intervalMs: number;
+}
+
+/**
+ * Distributed tracing configuration
+ * Spans are exported over OTLP/HTTP (JSON) or appended to a local JSONL file
+ */
+export interface TracingConfig {
+  enabled: boolean;
+  serviceName: string;
+  sampleRate: number;
+  exporter: "otlp" | "file";
+  otlpEndpoint: string;
+  otlpHeaders: Record<string, string>;
+  filePath: string;
+}
+
+/**
+ * Token bucket: holds up to burst tokens (default requestsPerMinute), refilled continuously
+ */
+export interface RateLimitRule {
+  requestsPerMinute: number;
+  burst?: number;
+}
+
+/**
+ * Rate limit for tool calls matching name globs
+ * Shared by all users unless perUser is set
+ */
+export interface ToolRateLimitRule extends RateLimitRule {
+  tools: string[];
+  perUser: boolean;
+}
+
+/**
+ * Rate limit for tool calls to one downstream server
+ * Shared by all users unless perUser is set
+ */
+export interface ServerRateLimitRule extends RateLimitRule {
+  server: string;
+  perUser: boolean;
+}
+
+/**
+ * Per-user daily cap on calls to tools matching name globs, reset at midnight UTC
+ */
+export interface DailyQuotaRule {
+  id?: string;
+  tools: string[];
+  limit: number;
+}
+
+/**
+ * Rate limiting and quota configuration
+ */
+export interface RateLimitConfig {
+  enabled: boolean;
+  perUser: RateLimitRule | null;
+  tools: ToolRateLimitRule[];
+  servers: ServerRateLimitRule[];
+  dailyQuotas: DailyQuotaRule[];
+  quotaStorePath: string;
+}
+
+/**
+ * Caching rule for tools matching name globs
+ * A ttlMs of 0 disables caching for matching tools; scope "shared" lets all users share results
+ */
+export interface CacheRule {
+  tools: string[];
+  ttlMs: number;
+  scope: "user" | "shared";
+}
+
+/**
+ * Tool result cache configuration
+ */
+export interface CacheConfig {
+  enabled: boolean;
+  backend: "memory" | "disk";
+  maxEntries: number;
+  diskPath: string;
+  cacheAnnotatedTools: boolean;
+  defaultTtlMs: number;
+  rules: CacheRule[];
 }
 
 /**
@@ -50,6 +454,15 @@ export interface GatewayConfig {
   server: ServerConfig;
   auth: AuthConfig;
   mcpServers: McpServerConfig[];
+  policies?: PolicyConfig;
+  audit?: AuditConfig;
+  redaction?: RedactionConfig;
+  metrics?: MetricsConfig;
+  tracing?: TracingConfig;
+  rateLimits?: RateLimitConfig;
+  cache?: CacheConfig;
+  reload?: ReloadConfig;
+  pool?: PoolConfig;
 }
 
 /**
@@ -60,6 +473,8 @@ export interface AuthenticatedUser {
   email: string;
   name: string;
   scopes: string[];
+  clientId?: string;
+  tokenName?: string;
 }
 
 /**
@@ -71,6 +486,7 @@ export interface AuthenticatedRequest extends Request {
 
 /**
  * MCP Tool definition
+ * inputSchema is the downstream JSON Schema, kept verbatim
  */
 export interface McpTool {
   name: string;
@@ -79,7 +495,20 @@ export interface McpTool {
     type: "object";
     properties?: Record<string, unknown>;
     required?: string[];
+    [key: string]: unknown;
   };
+  annotations?: McpToolAnnotations;
+}
+
+/**
+ * Behaviour hints a server advertises for a tool
+ */
+export interface McpToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
 }
 
 /**
@@ -90,23 +519,142 @@ export interface AggregatedTool extends McpTool {
   originalName: string;
 }
 
+/**
+ * MCP Resource definition
+ */
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * MCP Resource template definition
+ */
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Aggregated resource with source server info
+ */
+export interface AggregatedResource extends McpResource {
+  serverId: string;
+  originalUri: string;
+}
+
+/**
+ * Aggregated resource template with source server info
+ */
+export interface AggregatedResourceTemplate extends McpResourceTemplate {
+  serverId: string;
+  originalUriTemplate: string;
+}
+
+/**
+ * MCP Prompt argument definition
+ */
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * MCP Prompt definition
+ */
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+/**
+ * Aggregated prompt with source server info
+ */
+export interface AggregatedPrompt extends McpPrompt {
+  serverId: string;
+  originalName: string;
+}
+
 /**
  * Server pool status
  */
 export interface ServerStatus {
   id: string;
   name: string;
+  transport: ServerTransport;
+  enabled: boolean;
+  running: boolean;
+  idle: boolean;
   connected: boolean;
   toolCount: number;
+  resourceCount: number;
+  promptCount: number;
+  restartCount: number;
+  inFlight: number;
+  queueDepth: number;
+  circuit: CircuitState;
   error?: string;
 }
 
+/**
+ * Kinds of entries in a server's lifecycle timeline
+ */
+export type ServerLifecycleEventType =
+  | "spawn"
+  | "connect"
+  | "connect_failed"
+  | "crash"
+  | "exit"
+  | "restart"
+  | "gave_up"
+  | "stop"
+  | "idle"
+  | "wake";
+
+/**
+ * One entry in a server's lifecycle timeline
+ */
+export interface ServerLifecycleEvent {
+  type: ServerLifecycleEventType;
+  at: string;
+  message?: string;
+  pid?: number;
+  attempt?: number;
+}
+
+/**
+ * Server status with diagnostics, as shown by the admin API and /health?verbose
+ */
+export interface ServerDetails extends ServerStatus {
+  lastError?: string;
+  lastCallFailure?: string;
+  gaveUp: boolean;
+  stderr: string[];
+  events: ServerLifecycleEvent[];
+}
+
+/**
+ * Server IDs affected by a config reload
+ */
+export interface ServerConfigChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
 /**
  * Gateway health status
  */
 export interface HealthStatus {
   status: "ok" | "degraded" | "error";
   uptime: number;
+  activeSessions?: number;
   servers: ServerStatus[];
   timestamp: string;
 }
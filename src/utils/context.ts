@@ -0,0 +1,33 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Span identity carried through the async call chain
+ */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+/**
+ * Per-request context: the request ID, the currently active span and
+ * a signal that aborts when the client disconnects before the response is sent
+ */
+export interface RequestContext {
+  requestId: string;
+  span: SpanContext;
+  signal?: AbortSignal;
+}
+
+/**
+ * Async-local storage for the current request context
+ * Kept separate from the tracer so the logger can read it without an import cycle
+ */
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Get the current request context, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return requestContext.getStore();
+}
@@ -1,14 +1,20 @@
+import { redact, redactString } from "./logger.js";
+
 /**
  * Base error class for gateway errors
+ * Message and details are redacted up front, since both are returned to clients
  */
 export class GatewayError extends Error {
+  public readonly details?: unknown;
+
   constructor(
     message: string,
     public readonly code: string,
     public readonly statusCode: number = 500,
-    public readonly details?: unknown
+    details?: unknown
   ) {
-    super(message);
+    super(redactString(message));
+    this.details = redact(details);
     this.name = "GatewayError";
     Error.captureStackTrace(this, this.constructor);
   }
@@ -64,6 +70,40 @@ export class ToolNotFoundError extends GatewayError {
   }
 }
 
+/**
+ * OAuth protocol error - serialized as {error, error_description} (RFC 6749 §5.2)
+ */
+export class OAuthError extends GatewayError {
+  constructor(
+    public readonly oauthCode: string,
+    description: string,
+    statusCode: number = 400
+  ) {
+    super(description, "OAUTH_ERROR", statusCode, { error: oauthCode });
+    this.name = "OAuthError";
+  }
+}
+
+/**
+ * Resource not found error
+ */
+export class ResourceNotFoundError extends GatewayError {
+  constructor(uri: string) {
+    super(`Resource not found: ${uri}`, "RESOURCE_NOT_FOUND", 404, { uri });
+    this.name = "ResourceNotFoundError";
+  }
+}
+
+/**
+ * Prompt not found error
+ */
+export class PromptNotFoundError extends GatewayError {
+  constructor(promptName: string) {
+    super(`Prompt not found: ${promptName}`, "PROMPT_NOT_FOUND", 404, { promptName });
+    this.name = "PromptNotFoundError";
+  }
+}
+
 /**
  * Server connection error
  */
@@ -94,6 +134,141 @@ export class ServerExecutionError extends GatewayError {
   }
 }
 
+/**
+ * Rate limit error - a rate limit or daily quota is exhausted
+ */
+export class RateLimitError extends GatewayError {
+  constructor(
+    message: string,
+    public readonly retryAfterSeconds: number,
+    details?: unknown
+  ) {
+    super(message, "RATE_LIMITED", 429, details);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * Server busy error - the server's call queue is full or the wait timed out
+ */
+export class ServerBusyError extends GatewayError {
+  constructor(serverId: string, reason: string) {
+    super(`Server ${serverId} is busy: ${reason}`, "SERVER_BUSY", 503, { serverId });
+    this.name = "ServerBusyError";
+  }
+}
+
+/**
+ * Server state error - the operation does not apply to the server in its current state
+ */
+export class ServerStateError extends GatewayError {
+  constructor(serverId: string, message: string) {
+    super(message, "SERVER_STATE_CONFLICT", 409, { serverId });
+    this.name = "ServerStateError";
+  }
+}
+
+/**
+ * Circuit open error - the server is failing and calls are rejected without being attempted
+ */
+export class CircuitOpenError extends GatewayError {
+  constructor(serverId: string, retryAfterMs: number) {
+    super(
+      `Server ${serverId} is temporarily unavailable (circuit open)`,
+      "CIRCUIT_OPEN",
+      503,
+      { serverId, retryAfterMs: Math.max(0, Math.round(retryAfterMs)) }
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Tool call timeout - the downstream server did not answer in time
+ */
+export class ToolTimeoutError extends GatewayError {
+  constructor(serverId: string, toolName: string, timeoutMs: number) {
+    super(
+      `Tool ${toolName} on server ${serverId} timed out after ${timeoutMs}ms`,
+      "TOOL_TIMEOUT",
+      504,
+      { serverId, toolName, timeoutMs }
+    );
+    this.name = "ToolTimeoutError";
+  }
+}
+
+/**
+ * Request cancelled error - the caller cancelled or disconnected
+ * Uses the de facto 499 "client closed request" status
+ */
+export class RequestCancelledError extends GatewayError {
+  constructor(serverId: string, toolName: string, reason?: string) {
+    super(
+      `Tool call ${toolName} on server ${serverId} was cancelled`,
+      "REQUEST_CANCELLED",
+      499,
+      { serverId, toolName, reason }
+    );
+    this.name = "RequestCancelledError";
+  }
+}
+
+/**
+ * Resource read error
+ */
+export class ResourceReadError extends GatewayError {
+  constructor(serverId: string, uri: string, cause?: Error) {
+    super(
+      `Failed to read resource ${uri} on server ${serverId}`,
+      "RESOURCE_READ_ERROR",
+      500,
+      { serverId, uri, cause: cause?.message }
+    );
+    this.name = "ResourceReadError";
+  }
+}
+
+/**
+ * Prompt retrieval error
+ */
+export class PromptGetError extends GatewayError {
+  constructor(serverId: string, promptName: string, cause?: Error) {
+    super(
+      `Failed to get prompt ${promptName} on server ${serverId}`,
+      "PROMPT_GET_ERROR",
+      500,
+      { serverId, promptName, cause: cause?.message }
+    );
+    this.name = "PromptGetError";
+  }
+}
+
+/**
+ * Session not found error - unknown, expired or foreign session ID
+ */
+export class SessionNotFoundError extends GatewayError {
+  constructor(sessionId: string) {
+    super(`Session not found: ${sessionId}`, "SESSION_NOT_FOUND", 404, { sessionId });
+    this.name = "SessionNotFoundError";
+  }
+}
+
+/**
+ * Session limit error - too many active sessions
+ */
+export class SessionLimitError extends GatewayError {
+  constructor(maxSessions: number) {
+    super(
+      `Session limit reached (${maxSessions} active sessions)`,
+      "SESSION_LIMIT_REACHED",
+      503,
+      { maxSessions }
+    );
+    this.name = "SessionLimitError";
+  }
+}
+
 /**
  * Configuration error
  */
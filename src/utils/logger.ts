@@ -1,3 +1,5 @@
+import { getRequestContext } from "./context.js";
+
 type LogLevel = "debug" | "info" | "warn" | "error";
 
 interface LogData {
@@ -14,6 +16,175 @@ const LOG_LEVELS: Record<LogLevel, number> = {
   error: 3,
 };
 
+/**
+ * Replacement for masked secrets
+ */
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Key names whose values are always masked
+ * Keys match when, ignoring case, "-" and "_", they equal one of these or end with one
+ * after a "-", "_" or camelCase word boundary, so dbPassword matches but passwordHint does not
+ */
+const DEFAULT_SECRET_KEYS = [
+  "password",
+  "passwd",
+  "secret",
+  "token",
+  "accesstoken",
+  "refreshtoken",
+  "idtoken",
+  "authtoken",
+  "apitoken",
+  "bearertoken",
+  "sessiontoken",
+  "apikey",
+  "accesskey",
+  "privatekey",
+  "authorization",
+  "cookie",
+  "credential",
+  "credentials",
+];
+
+/**
+ * Registered secret values shorter than this are ignored to avoid masking common words
+ */
+const MIN_SECRET_LENGTH = 6;
+
+/**
+ * Common credential formats masked wherever they appear in a string
+ */
+const CREDENTIAL_PATTERNS: Array<[RegExp, string]> = [
+  // Authorization header values
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/gi, `$1 ${REDACTED}`],
+  // JWTs
+  [/\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]*/g, REDACTED],
+  // Gateway static and OAuth tokens
+  [/\bgw_(?:live|at|rt|code)_[A-Za-z0-9_-]{8,}/g, REDACTED],
+  // Well-known provider key formats
+  [/\b(?:sk|pk|rk)-[A-Za-z0-9_-]{16,}/g, REDACTED],
+  [/\bgh[pousr]_[A-Za-z0-9]{20,}/g, REDACTED],
+  [/\bxox[abpr]-[A-Za-z0-9-]{10,}/g, REDACTED],
+  [/\bAKIA[0-9A-Z]{16}\b/g, REDACTED],
+  // key=value and "key": "value" pairs
+  [
+    /\b(password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)(["']?\s*[:=]\s*["']?)([^\s"'&,;]+)/gi,
+    `$1$2${REDACTED}`,
+  ],
+  // Credentials embedded in URLs
+  [/(\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:)[^\s@/]+@/gi, `$1${REDACTED}@`],
+];
+
+let secretKeys = DEFAULT_SECRET_KEYS;
+let extraPatterns: RegExp[] = [];
+const secretValues: Set<string> = new Set();
+
+/**
+ * Normalize a key for secret-name matching ("API-Key" and "api_key" both become "apikey")
+ */
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_]/g, "");
+}
+
+/**
+ * Secret key names that only match a whole key or the end after "-" or "_"
+ * Fields such as maxTokens or nextPageToken end in them without holding a secret
+ */
+const SEPARATED_ONLY_KEYS = new Set(["token"]);
+
+/**
+ * Normalized endings of a key that start at a word boundary
+ */
+function keyEndings(key: string, boundary: RegExp): string[] {
+  const words = key.split(boundary);
+  return words.slice(1).map((_, i) => normalizeKey(words.slice(i + 1).join("")));
+}
+
+/**
+ * Check whether an object key names a secret
+ */
+export function isSecretKey(key: string): boolean {
+  if (secretKeys.includes(normalizeKey(key))) {
+    return true;
+  }
+  return (
+    keyEndings(key, /[-_]/).some((ending) => secretKeys.includes(ending)) ||
+    keyEndings(key, /(?<=[a-z0-9])(?=[A-Z])/).some(
+      (ending) => secretKeys.includes(ending) && !SEPARATED_ONLY_KEYS.has(ending)
+    )
+  );
+}
+
+/**
+ * Add configured secret key names and extra value patterns to the defaults
+ */
+export function configureRedaction(options: { keys?: string[]; patterns?: string[] }): void {
+  secretKeys = Array.from(new Set([...DEFAULT_SECRET_KEYS, ...(options.keys ?? []).map(normalizeKey)]));
+  extraPatterns = (options.patterns ?? []).map((pattern) => new RegExp(pattern, "g"));
+}
+
+/**
+ * Register a secret value (e.g. resolved from an environment variable) to mask wherever it appears
+ */
+export function registerSecret(value: string): void {
+  if (value.length >= MIN_SECRET_LENGTH) {
+    secretValues.add(value);
+  }
+}
+
+/**
+ * Mask registered secrets and credential patterns in a string
+ */
+export function redactString(value: string): string {
+  let result = value;
+  for (const secret of secretValues) {
+    if (result.includes(secret)) {
+      result = result.split(secret).join(REDACTED);
+    }
+  }
+  for (const [pattern, replacement] of CREDENTIAL_PATTERNS) {
+    result = result.replace(pattern, replacement);
+  }
+  for (const pattern of extraPatterns) {
+    result = result.replace(pattern, REDACTED);
+  }
+  return result;
+}
+
+/**
+ * Deep-copy a value with secret keys and secret-looking strings masked
+ */
+export function redact<T>(value: T, seen: WeakSet<object> = new WeakSet()): T {
+  if (typeof value === "string") {
+    return redactString(value) as T;
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (seen.has(value)) {
+    return "[Circular]" as T;
+  }
+  if (value instanceof Error) {
+    return redactString(value.message) as T;
+  }
+
+  // Only the current path is tracked, so shared (non-circular) references are kept
+  seen.add(value);
+  const result = Array.isArray(value)
+    ? value.map((item) => redact(item, seen))
+    : Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+          key,
+          isSecretKey(key) && item !== null && item !== undefined && typeof item !== "object"
+            ? REDACTED
+            : redact(item, seen),
+        ])
+      );
+  seen.delete(value);
+  return result as T;
+}
+
 function getLogLevel(): LogLevel {
   const level = process.env.LOG_LEVEL?.toLowerCase();
   if (level && level in LOG_LEVELS) {
@@ -28,11 +199,18 @@ function shouldLog(level: LogLevel): boolean {
 }
 
 function formatLog(level: LogLevel, msg: string, data?: Record<string, unknown>): string {
+  // Correlate every line with the active request and trace
+  const context = getRequestContext();
   const logData: LogData = {
     level,
-    msg,
+    msg: redactString(msg),
     ts: new Date().toISOString(),
-    ...data,
+    ...(context && {
+      requestId: context.requestId,
+      traceId: context.span.traceId,
+      spanId: context.span.spanId,
+    }),
+    ...(data ? redact(data) : {}),
   };
   return JSON.stringify(logData);
 }
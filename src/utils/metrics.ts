@@ -0,0 +1,264 @@
+/**
+ * Minimal Prometheus metrics registry
+ * Supports counters, gauges and histograms with labels, rendered in the text exposition format
+ */
+
+type Labels = Record<string, string>;
+
+/**
+ * Default latency buckets in seconds
+ */
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+/**
+ * Escape a label value for the exposition format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/**
+ * Render a label set as {a="1",b="2"}
+ */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+/**
+ * Stable key for a label set
+ */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Render a sample value, using Prometheus spellings for special values
+ */
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/**
+ * Common metric behaviour: name, help text and per-label-set series
+ */
+abstract class Metric<TSeries> {
+  protected series: Map<string, { labels: Labels; value: TSeries }> = new Map();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram"
+  ) {}
+
+  protected getSeries(labels: Labels, create: () => TSeries): TSeries {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines.join("\n");
+  }
+
+  protected abstract renderSeries(labels: Labels, value: TSeries): string[];
+}
+
+/**
+ * Monotonically increasing counter
+ */
+export class Counter extends Metric<{ value: number }> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    this.getSeries(labels, () => ({ value: 0 })).value += amount;
+  }
+
+  protected renderSeries(labels: Labels, series: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(series.value)}`];
+  }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends Metric<{ value: number }> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number): void {
+    this.getSeries(labels, () => ({ value: 0 })).value = value;
+  }
+
+  protected renderSeries(labels: Labels, series: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(series.value)}`];
+  }
+}
+
+/**
+ * Cumulative histogram of observed values
+ */
+export class Histogram extends Metric<{ counts: number[]; sum: number; count: number }> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.getSeries(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  protected renderSeries(
+    labels: Labels,
+    series: { counts: number[]; sum: number; count: number }
+  ): string[] {
+    const lines = this.buckets.map(
+      (bound, index) =>
+        `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${series.counts[index]}`
+    );
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${series.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${series.count}`);
+    return lines;
+  }
+}
+
+/**
+ * Registry of metrics plus callbacks that refresh state-derived gauges at scrape time
+ */
+class MetricsRegistry {
+  private readonly metrics: Array<{ render(): string }> = [];
+  private readonly collectors: Array<() => void> = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Run a callback before every scrape, returning a function that removes it
+   */
+  onCollect(collector: () => void): () => void {
+    this.collectors.push(collector);
+    return () => {
+      const index = this.collectors.indexOf(collector);
+      if (index !== -1) {
+        this.collectors.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Render every metric in the Prometheus text exposition format
+   */
+  render(): string {
+    for (const collector of this.collectors) {
+      collector();
+    }
+    return this.metrics.map((metric) => metric.render()).join("\n\n") + "\n";
+  }
+
+  private register<T extends { render(): string }>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+/**
+ * Gateway metrics
+ */
+export const toolCallsTotal = metrics.counter(
+  "mcp_gateway_tool_calls_total",
+  "Tool calls routed through the gateway, by server, tool and outcome"
+);
+export const toolCallDuration = metrics.histogram(
+  "mcp_gateway_tool_call_duration_seconds",
+  "Tool call latency in seconds, by server and tool"
+);
+export const errorsTotal = metrics.counter(
+  "mcp_gateway_errors_total",
+  "Errors returned to clients, by error code"
+);
+export const cacheRequestsTotal = metrics.counter(
+  "mcp_gateway_cache_requests_total",
+  "Tool result cache lookups, by result (hit or miss)"
+);
+export const authFailuresTotal = metrics.counter(
+  "mcp_gateway_auth_failures_total",
+  "Rejected requests, by reason"
+);
+export const rateLimitedTotal = metrics.counter(
+  "mcp_gateway_rate_limited_total",
+  "Requests rejected by rate limits or daily quotas, by limit kind"
+);
+export const serverUp = metrics.gauge(
+  "mcp_gateway_server_up",
+  "Whether a downstream server is connected (1) or not (0)"
+);
+export const serverConnectsTotal = metrics.counter(
+  "mcp_gateway_server_connects_total",
+  "Downstream connection attempts, by server and result"
+);
+export const serverDisconnectsTotal = metrics.counter(
+  "mcp_gateway_server_disconnects_total",
+  "Unexpected downstream disconnects, by server"
+);
+export const serverRestartsTotal = metrics.counter(
+  "mcp_gateway_server_restarts_total",
+  "Supervisor restart attempts, by server"
+);
+export const circuitBreakerState = metrics.gauge(
+  "mcp_gateway_circuit_breaker_state",
+  "Circuit breaker state per server: 0 closed, 1 half-open, 2 open"
+);
+export const serverInFlight = metrics.gauge(
+  "mcp_gateway_server_in_flight_calls",
+  "Tool calls currently running on a downstream server"
+);
+export const serverQueueDepth = metrics.gauge(
+  "mcp_gateway_server_queue_depth",
+  "Tool calls waiting for a free slot on a downstream server"
+);
+export const activeSessions = metrics.gauge(
+  "mcp_gateway_active_sessions",
+  "Open Streamable HTTP sessions"
+);
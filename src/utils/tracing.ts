@@ -0,0 +1,413 @@
+import { randomBytes, randomUUID } from "crypto";
+import { appendFile, mkdir } from "fs/promises";
+import { dirname } from "path";
+import type { TracingConfig } from "../types.js";
+import { getRequestContext, requestContext, type SpanContext } from "./context.js";
+import { logger, redactString } from "./logger.js";
+
+// Interval between exports of buffered spans (5 seconds)
+const EXPORT_INTERVAL_MS = 5000;
+
+// Spans per export request
+const MAX_EXPORT_BATCH = 512;
+
+// Spans buffered before the oldest are dropped
+const MAX_QUEUE_SIZE = 2048;
+
+// Timeout for an OTLP export request (10 seconds)
+const EXPORT_TIMEOUT_MS = 10000;
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Span kinds, numbered as in OTLP
+ */
+export type SpanKind = "internal" | "server" | "client";
+
+const SPAN_KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+
+type AttributeValue = string | number | boolean;
+
+/**
+ * A finished span as handed to exporters
+ */
+interface FinishedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: Record<string, AttributeValue>;
+  status: { code: "ok" | "error" | "unset"; message?: string };
+}
+
+/**
+ * Destination for finished spans
+ */
+interface SpanExporter {
+  export(spans: FinishedSpan[]): Promise<void>;
+}
+
+/**
+ * Current wall-clock time in nanoseconds since the epoch
+ */
+function nowUnixNano(): bigint {
+  return BigInt(Math.round((performance.timeOrigin + performance.now()) * 1e6));
+}
+
+/**
+ * Random lowercase hex ID that is not all zeros
+ */
+function randomHexId(bytes: number): string {
+  let id: string;
+  do {
+    id = randomBytes(bytes).toString("hex");
+  } while (/^0+$/.test(id));
+  return id;
+}
+
+/**
+ * Parse a W3C traceparent header
+ * Returns undefined for malformed headers and the invalid all-zero IDs
+ */
+export function parseTraceparent(
+  header: string | undefined
+): { traceId: string; parentSpanId: string; sampled: boolean } | undefined {
+  const match = header ? TRACEPARENT_PATTERN.exec(header.trim().toLowerCase()) : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, parentSpanId, flags] = match;
+  if (version === "ff" || /^0+$/.test(traceId) || /^0+$/.test(parentSpanId)) {
+    return undefined;
+  }
+  return { traceId, parentSpanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/**
+ * Format a span context as a W3C traceparent header
+ */
+export function formatTraceparent(span: SpanContext): string {
+  return `00-${span.traceId}-${span.spanId}-${span.sampled ? "01" : "00"}`;
+}
+
+/**
+ * A unit of work in a trace
+ */
+export class Span implements SpanContext {
+  readonly spanId: string = randomHexId(8);
+  private readonly startTime = nowUnixNano();
+  private readonly attributes: Record<string, AttributeValue> = {};
+  private status: FinishedSpan["status"] = { code: "unset" };
+  private ended = false;
+
+  constructor(
+    private readonly tracer: Tracer,
+    readonly name: string,
+    readonly kind: SpanKind,
+    readonly traceId: string,
+    readonly sampled: boolean,
+    readonly parentSpanId?: string
+  ) {}
+
+  /**
+   * Set attributes, ignoring undefined values
+   */
+  setAttributes(attributes: Record<string, AttributeValue | undefined>): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) {
+        this.attributes[key] = value;
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Mark the span as failed
+   */
+  recordError(error: unknown): this {
+    const message = redactString(error instanceof Error ? error.message : String(error));
+    this.status = { code: "error", message };
+    if (error instanceof Error) {
+      this.attributes["exception.type"] = error.name;
+      this.attributes["exception.message"] = message;
+    }
+    return this;
+  }
+
+  /**
+   * Finish the span and hand it to the exporter if sampled
+   */
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    if (this.status.code === "unset") {
+      this.status = { code: "ok" };
+    }
+    if (!this.sampled) {
+      return;
+    }
+
+    this.tracer.enqueue({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: this.kind,
+      startTimeUnixNano: this.startTime.toString(),
+      endTimeUnixNano: nowUnixNano().toString(),
+      attributes: { ...this.attributes },
+      status: this.status,
+    });
+  }
+}
+
+/**
+ * Exports spans to an OTLP/HTTP collector using the JSON encoding
+ */
+class OtlpHttpExporter implements SpanExporter {
+  private failing = false;
+
+  constructor(private readonly config: TracingConfig) {}
+
+  async export(spans: FinishedSpan[]): Promise<void> {
+    const body = {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: [{ key: "service.name", value: { stringValue: this.config.serviceName } }],
+          },
+          scopeSpans: [
+            {
+              scope: { name: "mcp-gateway" },
+              spans: spans.map((span) => ({
+                traceId: span.traceId,
+                spanId: span.spanId,
+                parentSpanId: span.parentSpanId,
+                name: span.name,
+                kind: SPAN_KIND_CODES[span.kind],
+                startTimeUnixNano: span.startTimeUnixNano,
+                endTimeUnixNano: span.endTimeUnixNano,
+                attributes: Object.entries(span.attributes).map(([key, value]) => ({
+                  key,
+                  value: OtlpHttpExporter.toAnyValue(value),
+                })),
+                status: {
+                  code: span.status.code === "error" ? 2 : span.status.code === "ok" ? 1 : 0,
+                  message: span.status.message,
+                },
+              })),
+            },
+          ],
+        },
+      ],
+    };
+
+    try {
+      const response = await fetch(this.config.otlpEndpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...this.config.otlpHeaders },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      if (this.failing) {
+        this.failing = false;
+        logger.info("Trace export recovered", { endpoint: this.config.otlpEndpoint });
+      }
+    } catch (error) {
+      // Warn once per outage rather than on every batch
+      if (!this.failing) {
+        this.failing = true;
+        logger.warn("Trace export failed, dropping spans until the collector recovers", {
+          endpoint: this.config.otlpEndpoint,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private static toAnyValue(value: AttributeValue): Record<string, unknown> {
+    if (typeof value === "boolean") return { boolValue: value };
+    if (typeof value === "number") {
+      return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+    }
+    return { stringValue: value };
+  }
+}
+
+/**
+ * Appends spans to a local JSONL file, for testing without a collector
+ */
+class FileExporter implements SpanExporter {
+  private prepared = false;
+
+  constructor(private readonly path: string) {}
+
+  async export(spans: FinishedSpan[]): Promise<void> {
+    try {
+      if (!this.prepared) {
+        await mkdir(dirname(this.path), { recursive: true });
+        this.prepared = true;
+      }
+      await appendFile(this.path, spans.map((span) => JSON.stringify(span)).join("\n") + "\n");
+    } catch (error) {
+      logger.error(`Failed to write spans to ${this.path}`, error as Error);
+    }
+  }
+}
+
+/**
+ * Creates spans, tracks the active span through AsyncLocalStorage and batches exports
+ */
+export class Tracer {
+  private config?: TracingConfig;
+  private exporter?: SpanExporter;
+  private queue: FinishedSpan[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+
+  /**
+   * Enable exporting; until this is called spans are created but never exported
+   */
+  configure(config: TracingConfig): void {
+    this.config = config;
+    if (!config.enabled) {
+      return;
+    }
+
+    this.exporter =
+      config.exporter === "file" ? new FileExporter(config.filePath) : new OtlpHttpExporter(config);
+    this.timer = setInterval(() => void this.flush(), EXPORT_INTERVAL_MS);
+    this.timer.unref();
+
+    logger.info("Tracing enabled", {
+      exporter: config.exporter,
+      destination: config.exporter === "file" ? config.filePath : config.otlpEndpoint,
+      sampleRate: config.sampleRate,
+    });
+  }
+
+  /**
+   * Run a request handler in a new request context
+   * Continues the caller's trace when a valid traceparent header is given
+   */
+  runRequest<T>(
+    name: string,
+    options: {
+      requestId?: string;
+      traceparent?: string;
+      signal?: AbortSignal;
+      attributes?: Record<string, AttributeValue | undefined>;
+    },
+    fn: (span: Span) => T
+  ): T {
+    const parent = parseTraceparent(options.traceparent);
+    const span = new Span(
+      this,
+      name,
+      "server",
+      parent?.traceId ?? randomHexId(16),
+      parent ? parent.sampled : this.shouldSample(),
+      parent?.parentSpanId
+    ).setAttributes(options.attributes ?? {});
+
+    return requestContext.run(
+      { requestId: options.requestId ?? randomUUID(), span, signal: options.signal },
+      () => fn(span)
+    );
+  }
+
+  /**
+   * Run a function in a child span of the active span, ending it when the function settles
+   * Outside a request this starts a new trace
+   */
+  async withSpan<T>(
+    name: string,
+    attributes: Record<string, AttributeValue | undefined>,
+    fn: (span: Span) => Promise<T> | T,
+    kind: SpanKind = "internal"
+  ): Promise<T> {
+    const context = getRequestContext();
+    const span = new Span(
+      this,
+      name,
+      kind,
+      context?.span.traceId ?? randomHexId(16),
+      context ? context.span.sampled : this.shouldSample(),
+      context?.span.spanId
+    ).setAttributes(attributes);
+
+    return requestContext.run(
+      { ...context, requestId: context?.requestId ?? randomUUID(), span },
+      async () => {
+        try {
+          return await fn(span);
+        } catch (error) {
+          span.recordError(error);
+          throw error;
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+
+  /**
+   * Buffer a finished span for export
+   */
+  enqueue(span: FinishedSpan): void {
+    if (!this.exporter) {
+      return;
+    }
+    this.queue.push(span);
+    if (this.queue.length > MAX_QUEUE_SIZE) {
+      this.queue.splice(0, this.queue.length - MAX_QUEUE_SIZE);
+    }
+    if (this.queue.length >= MAX_EXPORT_BATCH) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Export all buffered spans
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) {
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      while (this.exporter && this.queue.length > 0) {
+        await this.exporter.export(this.queue.splice(0, MAX_EXPORT_BATCH));
+      }
+    })().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Stop the export timer and flush remaining spans
+   */
+  async shutdown(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.flush();
+  }
+
+  private shouldSample(): boolean {
+    return Boolean(this.config?.enabled) && Math.random() < (this.config?.sampleRate ?? 0);
+  }
+}
+
+export const tracer = new Tracer();
@@ -0,0 +1,111 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "timers/promises";
+import { CircuitBreaker } from "../src/pool/breaker.js";
+import type { CircuitBreakerPolicy } from "../src/types.js";
+import { CircuitOpenError } from "../src/utils/errors.js";
+
+const OPEN_DURATION_MS = 20;
+
+function breaker(policy: Partial<CircuitBreakerPolicy> = {}): CircuitBreaker {
+  return new CircuitBreaker("fs", {
+    enabled: true,
+    windowSize: 4,
+    minimumCalls: 4,
+    failureRateThreshold: 0.5,
+    openDurationMs: OPEN_DURATION_MS,
+    halfOpenProbes: 1,
+    ...policy,
+  });
+}
+
+/**
+ * Run calls through the breaker, recording the given outcomes
+ */
+function record(circuit: CircuitBreaker, outcomes: boolean[]): void {
+  for (const ok of outcomes) {
+    circuit.acquire();
+    if (ok) {
+      circuit.recordSuccess();
+    } else {
+      circuit.recordFailure(new Error("boom"));
+    }
+  }
+}
+
+/**
+ * Trip the breaker and wait until it lets a probe through
+ */
+async function halfOpen(circuit: CircuitBreaker): Promise<void> {
+  record(circuit, [false, false, false, false]);
+  await sleep(OPEN_DURATION_MS + 5);
+  assert.equal(circuit.state, "half_open");
+}
+
+describe("CircuitBreaker", () => {
+  test("stays closed until minimumCalls have been seen", () => {
+    const circuit = breaker();
+    record(circuit, [false, false, false]);
+    assert.equal(circuit.state, "closed");
+    record(circuit, [false]);
+    assert.equal(circuit.state, "open");
+    assert.equal(circuit.lastFailure, "boom");
+  });
+
+  test("opens when the failure rate over the window reaches the threshold", () => {
+    const circuit = breaker();
+    // The first failure has slid out of the window by the time the rate is checked
+    record(circuit, [false, true, true, true, true, false]);
+    assert.equal(circuit.state, "closed");
+    record(circuit, [false]);
+    assert.equal(circuit.state, "open");
+  });
+
+  test("fails fast while open", () => {
+    const circuit = breaker();
+    record(circuit, [false, false, false, false]);
+    assert.throws(() => circuit.acquire(), CircuitOpenError);
+  });
+
+  test("closes after the half-open probes succeed", async () => {
+    const circuit = breaker({ halfOpenProbes: 2 });
+    await halfOpen(circuit);
+
+    circuit.acquire();
+    circuit.acquire();
+    assert.throws(() => circuit.acquire(), CircuitOpenError);
+    circuit.recordSuccess();
+    assert.equal(circuit.state, "half_open");
+    circuit.recordSuccess();
+    assert.equal(circuit.state, "closed");
+  });
+
+  test("reopens when a half-open probe fails", async () => {
+    const circuit = breaker();
+    await halfOpen(circuit);
+
+    circuit.acquire();
+    circuit.recordFailure(new Error("still down"));
+    assert.equal(circuit.state, "open");
+    assert.equal(circuit.lastFailure, "still down");
+  });
+
+  test("frees the probe slot for ignored calls", async () => {
+    const circuit = breaker();
+    await halfOpen(circuit);
+
+    circuit.acquire();
+    circuit.recordIgnored();
+    assert.equal(circuit.state, "half_open");
+    circuit.acquire();
+    circuit.recordSuccess();
+    assert.equal(circuit.state, "closed");
+  });
+
+  test("admits every call when disabled", () => {
+    const circuit = breaker({ enabled: false });
+    record(circuit, [false, false, false, false, false]);
+    assert.equal(circuit.state, "closed");
+    circuit.acquire();
+  });
+});
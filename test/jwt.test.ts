@@ -0,0 +1,107 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { generateKeyPairSync, sign, type KeyObject } from "crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JwtValidator } from "../src/auth/jwt.js";
+import type { JwtConfig } from "../src/types.js";
+import { AuthenticationError } from "../src/utils/errors.js";
+
+function segment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/**
+ * Sign an ES256 JWT with the given claims
+ */
+function signJwt(key: KeyObject, claims: Record<string, unknown>, header: Record<string, unknown> = {}): string {
+  const input = `${segment({ alg: "ES256", kid: "key-1", ...header })}.${segment(claims)}`;
+  const signature = sign("sha256", Buffer.from(input), { key, dsaEncoding: "ieee-p1363" });
+  return `${input}.${signature.toString("base64url")}`;
+}
+
+describe("JwtValidator", () => {
+  const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const other = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  let dir: string;
+  let validator: JwtValidator;
+
+  const now = (): number => Math.floor(Date.now() / 1000);
+  const claims = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+    sub: "user-123",
+    iss: "https://idp.example.com/",
+    aud: "https://gateway.example.com",
+    exp: now() + 300,
+    email: "user@example.com",
+    scope: "tools:read tools:execute",
+    ...overrides,
+  });
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), "jwt-test-"));
+    const jwksPath = join(dir, "jwks.json");
+    writeFileSync(jwksPath, JSON.stringify({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: "key-1" }] }));
+
+    const config: JwtConfig = {
+      enabled: true,
+      issuer: "https://idp.example.com/",
+      audience: "https://gateway.example.com",
+      jwksPath,
+      jwksCacheSeconds: 600,
+      clockSkewSeconds: 60,
+      algorithms: ["ES256"],
+      claims: { id: "sub", email: "email", name: "name", scopes: "scope" },
+      defaultScopes: ["tools:read"],
+      userIdPrefix: "jwt:",
+    };
+    validator = new JwtValidator(config);
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("maps a valid token onto a prefixed user", async () => {
+    const user = await validator.validate(signJwt(privateKey, claims()));
+    assert.deepEqual(user, {
+      id: "jwt:user-123",
+      email: "user@example.com",
+      name: "user-123",
+      scopes: ["tools:read", "tools:execute"],
+    });
+  });
+
+  test("falls back to the default scopes without a scope claim", async () => {
+    const user = await validator.validate(signJwt(privateKey, claims({ scope: undefined })));
+    assert.deepEqual(user?.scopes, ["tools:read"]);
+  });
+
+  test("ignores tokens that are not JWTs", async () => {
+    assert.equal(await validator.validate("gw_live_not-a-jwt"), null);
+  });
+
+  const rejected: Array<[string, () => string, RegExp]> = [
+    ["a token signed by another key", () => signJwt(other.privateKey, claims()), /signature/],
+    ["a token with a tampered payload", () => {
+      const [header, , signature] = signJwt(privateKey, claims()).split(".");
+      return `${header}.${segment(claims({ sub: "admin" }))}.${signature}`;
+    }, /signature/],
+    ["an expired token", () => signJwt(privateKey, claims({ exp: now() - 120 })), /expired/],
+    ["a token without exp", () => signJwt(privateKey, claims({ exp: undefined })), /expiry/],
+    ["a token that is not yet valid", () => signJwt(privateKey, claims({ nbf: now() + 600 })), /not yet valid/],
+    ["a token from another issuer", () => signJwt(privateKey, claims({ iss: "https://evil.example.com/" })), /issuer/],
+    ["a token for another audience", () => signJwt(privateKey, claims({ aud: "https://other.example.com" })), /audience/],
+    ["a token with a disallowed algorithm", () => signJwt(privateKey, claims(), { alg: "none" }), /algorithm/],
+  ];
+
+  for (const [name, token, message] of rejected) {
+    test(`rejects ${name}`, async () => {
+      await assert.rejects(validator.validate(token()), (error: unknown) => {
+        assert.ok(error instanceof AuthenticationError);
+        assert.match(error.message, message);
+        return true;
+      });
+    });
+  }
+});
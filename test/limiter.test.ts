@@ -0,0 +1,133 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { ConcurrencyLimiter } from "../src/pool/limiter.js";
+import { RequestCancelledError, ServerBusyError } from "../src/utils/errors.js";
+
+/**
+ * A promise that settles when the test says so
+ */
+function deferred(): { promise: Promise<void>; resolve: () => void; reject: (error: Error) => void } {
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("ConcurrencyLimiter", () => {
+  test("counts calls without limiting them when maxInFlight is unset", async () => {
+    const limiter = new ConcurrencyLimiter("fs");
+    const gates = [deferred(), deferred(), deferred()];
+    const calls = gates.map((gate) => limiter.run("fs_read", () => gate.promise));
+    assert.equal(limiter.inFlight, 3);
+    assert.equal(limiter.queueDepth, 0);
+
+    gates.forEach((gate) => gate.resolve());
+    await Promise.all(calls);
+    assert.equal(limiter.inFlight, 0);
+  });
+
+  test("queues calls beyond the limit and runs them in order", async () => {
+    const limiter = new ConcurrencyLimiter("fs", { maxInFlight: 1, maxQueue: 4, queueTimeoutMs: 1000 });
+    const order: string[] = [];
+    const first = deferred();
+
+    const calls = [
+      limiter.run("a", async () => {
+        await first.promise;
+        order.push("a");
+      }),
+      limiter.run("b", async () => {
+        order.push("b");
+      }),
+      limiter.run("c", async () => {
+        order.push("c");
+      }),
+    ];
+    assert.equal(limiter.inFlight, 1);
+    assert.equal(limiter.queueDepth, 2);
+
+    first.resolve();
+    await Promise.all(calls);
+    assert.deepEqual(order, ["a", "b", "c"]);
+    assert.equal(limiter.inFlight, 0);
+    assert.equal(limiter.queueDepth, 0);
+  });
+
+  test("releases the slot when a call fails", async () => {
+    const limiter = new ConcurrencyLimiter("fs", { maxInFlight: 1, maxQueue: 1, queueTimeoutMs: 1000 });
+    const failing = deferred();
+    const failed = limiter.run("a", () => failing.promise);
+    const queued = limiter.run("b", async () => "ok");
+
+    failing.reject(new Error("boom"));
+    await assert.rejects(failed, /boom/);
+    assert.equal(await queued, "ok");
+    assert.equal(limiter.inFlight, 0);
+  });
+
+  test("rejects calls when the queue is full", async () => {
+    const limiter = new ConcurrencyLimiter("fs", { maxInFlight: 1, maxQueue: 1, queueTimeoutMs: 1000 });
+    const gate = deferred();
+    const running = limiter.run("a", () => gate.promise);
+    const queued = limiter.run("b", async () => undefined);
+
+    await assert.rejects(limiter.run("c", async () => undefined), ServerBusyError);
+    gate.resolve();
+    await Promise.all([running, queued]);
+  });
+
+  test("rejects calls that wait longer than the queue timeout", async () => {
+    const limiter = new ConcurrencyLimiter("fs", { maxInFlight: 1, maxQueue: 1, queueTimeoutMs: 20 });
+    const gate = deferred();
+    const running = limiter.run("a", () => gate.promise);
+
+    await assert.rejects(limiter.run("b", async () => undefined), /waited more than 20ms/);
+    assert.equal(limiter.queueDepth, 0);
+    gate.resolve();
+    await running;
+    assert.equal(limiter.inFlight, 0);
+  });
+
+  test("removes a queued call when its signal aborts", async () => {
+    const limiter = new ConcurrencyLimiter("fs", { maxInFlight: 1, maxQueue: 1, queueTimeoutMs: 1000 });
+    const gate = deferred();
+    const running = limiter.run("a", () => gate.promise);
+    const controller = new AbortController();
+    let ran = false;
+    const queued = limiter.run("b", async () => {
+      ran = true;
+    }, controller.signal);
+
+    controller.abort();
+    await assert.rejects(queued, RequestCancelledError);
+    assert.equal(limiter.queueDepth, 0);
+    gate.resolve();
+    await running;
+    assert.equal(ran, false);
+    assert.equal(limiter.inFlight, 0);
+  });
+
+  test("rejects an already aborted call without taking a slot", async () => {
+    const limiter = new ConcurrencyLimiter("fs", { maxInFlight: 1, maxQueue: 1, queueTimeoutMs: 1000 });
+    await assert.rejects(limiter.run("a", async () => undefined, AbortSignal.abort()), RequestCancelledError);
+    assert.equal(limiter.inFlight, 0);
+  });
+
+  test("rejects every queued call on shutdown", async () => {
+    const limiter = new ConcurrencyLimiter("fs", { maxInFlight: 1, maxQueue: 2, queueTimeoutMs: 1000 });
+    const gate = deferred();
+    const running = limiter.run("a", () => gate.promise);
+    const queued = [limiter.run("b", async () => undefined), limiter.run("c", async () => undefined)];
+
+    limiter.rejectQueued(new Error("shutting down"));
+    for (const call of queued) {
+      await assert.rejects(call, /shutting down/);
+    }
+    gate.resolve();
+    await running;
+    assert.equal(limiter.inFlight, 0);
+  });
+});
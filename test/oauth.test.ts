@@ -0,0 +1,167 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash, randomBytes } from "crypto";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { AuthProvider } from "../src/auth/provider.js";
+import { OAuthClientStore } from "../src/auth/clients.js";
+import { OAuthServer } from "../src/auth/oauth.js";
+import { OAuthTokenStore } from "../src/auth/tokens.js";
+import type { AuthConfig, OAuthConfig } from "../src/types.js";
+
+const REDIRECT_URI = "http://localhost:9999/callback";
+const ACCESS_KEY = "alice-access-key-0123456789";
+
+const oauthConfig: OAuthConfig = {
+  enabled: true,
+  accessTokenTtlSeconds: 60,
+  refreshTokenTtlSeconds: 600,
+  authorizationCodeTtlSeconds: 60,
+  clients: [{ clientId: "test-client", redirectUris: [REDIRECT_URI] }],
+  dynamicRegistration: true,
+  maxRegisteredClients: 10,
+  endpointRateLimit: null,
+  registrationRateLimit: null,
+};
+
+function authConfig(scopes: string[], revokedTokens: string[] = []): AuthConfig {
+  return {
+    enabled: true,
+    users: [{ id: "alice", email: "alice@example.com", name: "Alice", token: ACCESS_KEY, scopes }],
+    revokedTokens,
+  };
+}
+
+describe("OAuth authorization server", () => {
+  let server: Server;
+  let baseUrl: string;
+  let provider: AuthProvider;
+
+  before(async () => {
+    const tokenStore = new OAuthTokenStore(oauthConfig);
+    provider = new AuthProvider(authConfig(["tools:read", "tools:execute"]), tokenStore);
+    const oauth = new OAuthServer(oauthConfig, "http://localhost", provider, tokenStore, new OAuthClientStore(oauthConfig));
+
+    const app = express();
+    app.use(express.json());
+    app.use(oauth.createRouter());
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  /**
+   * Sign in on the authorization endpoint and return the code from the redirect
+   */
+  async function authorize(codeChallenge: string, scope?: string): Promise<string> {
+    const form = new URLSearchParams({
+      response_type: "code",
+      client_id: "test-client",
+      redirect_uri: REDIRECT_URI,
+      code_challenge: codeChallenge,
+      code_challenge_method: "S256",
+      email: "alice@example.com",
+      access_key: ACCESS_KEY,
+      ...(scope ? { scope } : {}),
+    });
+    const response = await fetch(`${baseUrl}/authorize`, { method: "POST", body: form, redirect: "manual" });
+    assert.equal(response.status, 302);
+    const code = new URL(response.headers.get("location") ?? "").searchParams.get("code");
+    assert.ok(code);
+    return code;
+  }
+
+  async function token(params: Record<string, string>): Promise<{ status: number; body: Record<string, string> }> {
+    const response = await fetch(`${baseUrl}/token`, {
+      method: "POST",
+      body: new URLSearchParams({ client_id: "test-client", ...params }),
+    });
+    return { status: response.status, body: (await response.json()) as Record<string, string> };
+  }
+
+  async function signIn(scope?: string): Promise<Record<string, string>> {
+    const verifier = randomBytes(32).toString("base64url");
+    const code = await authorize(createHash("sha256").update(verifier).digest("base64url"), scope);
+    const { status, body } = await token({ grant_type: "authorization_code", code, code_verifier: verifier });
+    assert.equal(status, 200);
+    return body;
+  }
+
+  test("exchanges a code for tokens when the PKCE verifier matches", async () => {
+    const tokens = await signIn();
+    assert.match(tokens.access_token, /^gw_at_/);
+    assert.match(tokens.refresh_token, /^gw_rt_/);
+    assert.equal(tokens.scope, "tools:read tools:execute");
+
+    const user = await provider.validateToken(tokens.access_token);
+    assert.equal(user.id, "alice");
+    assert.equal(user.clientId, "test-client");
+  });
+
+  test("rejects a code exchanged with the wrong verifier", async () => {
+    const verifier = randomBytes(32).toString("base64url");
+    const code = await authorize(createHash("sha256").update(verifier).digest("base64url"));
+    const { status, body } = await token({
+      grant_type: "authorization_code",
+      code,
+      code_verifier: randomBytes(32).toString("base64url"),
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, "invalid_grant");
+  });
+
+  test("accepts an authorization code only once", async () => {
+    const verifier = randomBytes(32).toString("base64url");
+    const code = await authorize(createHash("sha256").update(verifier).digest("base64url"));
+    const first = await token({ grant_type: "authorization_code", code, code_verifier: verifier });
+    const second = await token({ grant_type: "authorization_code", code, code_verifier: verifier });
+    assert.equal(first.status, 200);
+    assert.equal(second.body.error, "invalid_grant");
+  });
+
+  test("grants only requested scopes the user holds", async () => {
+    const tokens = await signIn("tools:read admin");
+    assert.equal(tokens.scope, "tools:read");
+  });
+
+  test("rotates refresh tokens and rejects the presented one afterwards", async () => {
+    const tokens = await signIn();
+    const refreshed = await token({ grant_type: "refresh_token", refresh_token: tokens.refresh_token });
+    assert.equal(refreshed.status, 200);
+    assert.notEqual(refreshed.body.refresh_token, tokens.refresh_token);
+
+    const reused = await token({ grant_type: "refresh_token", refresh_token: tokens.refresh_token });
+    assert.equal(reused.body.error, "invalid_grant");
+  });
+
+  test("narrows refreshed tokens to the user's current scopes", async () => {
+    const tokens = await signIn();
+    provider.reload(authConfig(["tools:read"]));
+    try {
+      const refreshed = await token({ grant_type: "refresh_token", refresh_token: tokens.refresh_token });
+      assert.equal(refreshed.status, 200);
+      assert.equal(refreshed.body.scope, "tools:read");
+      const user = await provider.validateToken(refreshed.body.access_token);
+      assert.deepEqual(user.scopes, ["tools:read"]);
+    } finally {
+      provider.reload(authConfig(["tools:read", "tools:execute"]));
+    }
+  });
+
+  test("revokes OAuth tokens when the login token is revoked", async () => {
+    const tokens = await signIn();
+    provider.reload(authConfig(["tools:read", "tools:execute"], ["alice/default"]));
+    try {
+      await assert.rejects(provider.validateToken(tokens.access_token));
+      const refreshed = await token({ grant_type: "refresh_token", refresh_token: tokens.refresh_token });
+      assert.equal(refreshed.body.error, "invalid_grant");
+    } finally {
+      provider.reload(authConfig(["tools:read", "tools:execute"]));
+    }
+  });
+});
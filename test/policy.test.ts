@@ -0,0 +1,134 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { compileGlob, ToolPolicy } from "../src/auth/policy.js";
+import type { AuthenticatedUser, PolicyConfig } from "../src/types.js";
+
+const alice: AuthenticatedUser = {
+  id: "alice",
+  email: "alice@example.com",
+  name: "Alice",
+  scopes: ["tools:read", "tools:execute"],
+};
+const reader: AuthenticatedUser = { ...alice, id: "bob", scopes: ["tools:read"] };
+const admin: AuthenticatedUser = { ...alice, id: "carol", scopes: ["tools:execute", "admin"] };
+
+function policy(config: Partial<PolicyConfig>): ToolPolicy {
+  return new ToolPolicy({ enforceToolScopes: true, defaultEffect: "allow", rules: [], ...config });
+}
+
+describe("compileGlob", () => {
+  test("matches * and ? and escapes everything else", () => {
+    assert.ok(compileGlob("garmin_*").test("garmin_get_steps"));
+    assert.ok(compileGlob("fs_read?").test("fs_reads"));
+    assert.ok(!compileGlob("fs_read?").test("fs_read"));
+    assert.ok(!compileGlob("a.b").test("axb"));
+    assert.ok(!compileGlob("garmin_*").test("xgarmin_steps"));
+  });
+});
+
+describe("ToolPolicy", () => {
+  test("requires tool scopes when they are enforced", () => {
+    const decision = policy({}).evaluate(reader, "fs_write", "call");
+    assert.equal(decision.allowed, false);
+    assert.match(decision.reason, /tools:execute/);
+    assert.equal(policy({}).evaluate(reader, "fs_write", "list").allowed, true);
+    assert.equal(policy({ enforceToolScopes: false }).evaluate(reader, "fs_write", "call").allowed, true);
+  });
+
+  test("applies the default effect when no rule matches", () => {
+    assert.equal(policy({ defaultEffect: "deny" }).evaluate(alice, "fs_read", "call").allowed, false);
+    assert.equal(policy({ defaultEffect: "allow" }).evaluate(alice, "fs_read", "call").allowed, true);
+  });
+
+  test("lets deny rules win over allow rules", () => {
+    const decision = policy({
+      rules: [
+        { id: "allow-fs", effect: "allow", tools: ["fs_*"], actions: ["call"] },
+        { id: "no-delete", effect: "deny", tools: ["fs_delete"], actions: ["call"] },
+      ],
+    }).evaluate(alice, "fs_delete", "call");
+    assert.deepEqual(decision, { allowed: false, reason: "Denied by policy rule no-delete", rule: "no-delete" });
+  });
+
+  test("targets rules by user ID or scope", () => {
+    const evaluator = policy({
+      defaultEffect: "deny",
+      rules: [
+        { id: "alice", effect: "allow", tools: ["*"], users: ["alice"], actions: ["call"] },
+        { id: "admins", effect: "allow", tools: ["admin_*"], scopes: ["admin"], actions: ["call"] },
+      ],
+    });
+    assert.equal(evaluator.evaluate(alice, "fs_read", "call").allowed, true);
+    assert.equal(evaluator.evaluate(admin, "admin_reset", "call").allowed, true);
+    assert.equal(evaluator.evaluate(admin, "fs_read", "call").allowed, false);
+  });
+
+  test("permits calls only when an allow rule's argument constraints hold", () => {
+    const evaluator = policy({
+      defaultEffect: "deny",
+      rules: [
+        {
+          id: "home",
+          effect: "allow",
+          tools: ["fs_read"],
+          actions: ["list", "call"],
+          arguments: { path: { pathPrefix: "/home/alice" }, limit: { max: 100 } },
+        },
+      ],
+    });
+
+    assert.equal(evaluator.evaluate(alice, "fs_read", "call", { path: "/home/alice/notes.txt", limit: 10 }).allowed, true);
+    assert.equal(evaluator.evaluate(alice, "fs_read", "list").allowed, true);
+
+    const traversal = evaluator.evaluate(alice, "fs_read", "call", { path: "/home/alice/../bob/notes.txt", limit: 10 });
+    assert.equal(traversal.allowed, false);
+    assert.match(traversal.reason, /path must be within \/home\/alice/);
+
+    const missing = evaluator.evaluate(alice, "fs_read", "call", { path: "/home/alice/a" });
+    assert.match(missing.reason, /limit is required/);
+
+    const tooMany = evaluator.evaluate(alice, "fs_read", "call", { path: "/home/alice/a", limit: 500 });
+    assert.match(tooMany.reason, /limit must be at most 100/);
+  });
+
+  test("blocks calls only when a deny rule's argument constraints hold", () => {
+    const evaluator = policy({
+      rules: [
+        {
+          id: "no-prod",
+          effect: "deny",
+          tools: ["db_*"],
+          actions: ["call"],
+          arguments: { database: { oneOf: ["prod", "production"] } },
+        },
+      ],
+    });
+    assert.equal(evaluator.evaluate(alice, "db_query", "call", { database: "prod" }).allowed, false);
+    assert.equal(evaluator.evaluate(alice, "db_query", "call", { database: "staging" }).allowed, true);
+    assert.equal(evaluator.evaluate(alice, "db_query", "list").allowed, true);
+  });
+
+  test("checks string patterns, prefixes and exact values", () => {
+    const evaluator = policy({
+      defaultEffect: "deny",
+      rules: [
+        {
+          effect: "allow",
+          tools: ["http_get"],
+          actions: ["call"],
+          arguments: {
+            url: { prefix: "https://api.example.com/" },
+            method: { equals: "GET" },
+            id: { pattern: "^[0-9]+$" },
+          },
+        },
+      ],
+    });
+    const args = { url: "https://api.example.com/items", method: "GET", id: "42" };
+    assert.equal(evaluator.evaluate(alice, "http_get", "call", args).allowed, true);
+    assert.equal(evaluator.evaluate(alice, "http_get", "call", { ...args, url: "https://evil.example.com/" }).allowed, false);
+    assert.equal(evaluator.evaluate(alice, "http_get", "call", { ...args, method: "POST" }).allowed, false);
+    assert.equal(evaluator.evaluate(alice, "http_get", "call", { ...args, id: "42; drop" }).allowed, false);
+    assert.equal(evaluator.evaluate(alice, "http_get", "call", { ...args, id: 42 }).allowed, false);
+  });
+});
@@ -0,0 +1,128 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RateLimiter } from "../src/ratelimit/limiter.js";
+import { QuotaStore } from "../src/ratelimit/quota.js";
+import type { RateLimitConfig } from "../src/types.js";
+import { RateLimitError } from "../src/utils/errors.js";
+
+// Server IDs may contain the namespace separator, so tests resolve them from this map
+const TOOL_SERVERS: Record<string, string> = {
+  my_server_search: "my_server",
+  my_server_fetch: "my_server",
+  fs_read: "fs",
+  fs_write: "fs",
+};
+
+describe("RateLimiter", () => {
+  let dir: string;
+  let counter = 0;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), "ratelimit-test-"));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function limiter(config: Partial<RateLimitConfig>): RateLimiter {
+    return new RateLimiter(
+      {
+        enabled: true,
+        perUser: null,
+        tools: [],
+        servers: [],
+        dailyQuotas: [],
+        quotaStorePath: join(dir, `quotas-${counter++}.json`),
+        ...config,
+      },
+      (toolName) => TOOL_SERVERS[toolName]
+    );
+  }
+
+  test("limits each user to their own bucket", async () => {
+    const rateLimiter = limiter({ perUser: { requestsPerMinute: 60, burst: 2 } });
+    rateLimiter.consume("alice", ["fs_read", "fs_read"]);
+    assert.throws(() => rateLimiter.consume("alice", ["fs_read"]), (error: unknown) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.retryAfterSeconds, 1);
+      return true;
+    });
+    rateLimiter.consume("bob", ["fs_read"]);
+    await rateLimiter.close();
+  });
+
+  test("consumes nothing when any limit rejects the request", async () => {
+    const rateLimiter = limiter({
+      perUser: { requestsPerMinute: 60, burst: 5 },
+      tools: [{ tools: ["fs_write"], requestsPerMinute: 60, burst: 1, perUser: true }],
+    });
+    rateLimiter.consume("alice", ["fs_write"]);
+    assert.throws(() => rateLimiter.consume("alice", ["fs_read", "fs_write"]), /tools\[0\]/);
+    assert.equal(rateLimiter.getUsage("alice").perUser?.remaining, 4);
+    await rateLimiter.close();
+  });
+
+  test("applies server limits to tools of servers whose ID contains the separator", async () => {
+    const rateLimiter = limiter({
+      servers: [{ server: "my_server", requestsPerMinute: 60, burst: 1, perUser: false }],
+    });
+    rateLimiter.consume("alice", ["my_server_search"]);
+    assert.throws(() => rateLimiter.consume("bob", ["my_server_fetch"]), /server:my_server/);
+    rateLimiter.consume("bob", ["fs_read"]);
+    await rateLimiter.close();
+  });
+
+  test("rejects a batch larger than the bucket with a one-minute retry", async () => {
+    const rateLimiter = limiter({ perUser: { requestsPerMinute: 60, burst: 2 } });
+    assert.throws(() => rateLimiter.consume("alice", ["fs_read", "fs_read", "fs_read"]), (error: unknown) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.retryAfterSeconds, 60);
+      return true;
+    });
+    assert.equal(rateLimiter.getUsage("alice").perUser?.remaining, 2);
+    await rateLimiter.close();
+  });
+
+  test("enforces daily quotas and reports usage", async () => {
+    const rateLimiter = limiter({ dailyQuotas: [{ id: "writes", tools: ["fs_write"], limit: 2 }] });
+    rateLimiter.consume("alice", ["fs_write", "fs_read"]);
+    rateLimiter.consume("alice", ["fs_write"]);
+    assert.throws(() => rateLimiter.consume("alice", ["fs_write"]), /Daily quota writes exhausted/);
+    rateLimiter.consume("alice", ["fs_read"]);
+
+    const [quota] = rateLimiter.getUsage("alice").dailyQuotas;
+    assert.equal(quota.used, 2);
+    assert.equal(quota.remaining, 0);
+    assert.equal(quota.resetsAt, QuotaStore.nextReset().toISOString());
+    await rateLimiter.close();
+  });
+
+  test("persists quota usage across restarts", async () => {
+    const quotaStorePath = join(dir, "nested", "quotas.json");
+    const dailyQuotas = [{ id: "writes", tools: ["fs_*"], limit: 3 }];
+
+    const first = limiter({ dailyQuotas, quotaStorePath });
+    first.consume("alice", ["fs_write", "fs_read"]);
+    await first.close();
+    assert.ok(existsSync(quotaStorePath));
+    assert.deepEqual(JSON.parse(readFileSync(quotaStorePath, "utf-8")).usage, { alice: { writes: 2 } });
+
+    const second = limiter({ dailyQuotas, quotaStorePath });
+    assert.equal(second.getUsage("alice").dailyQuotas[0].used, 2);
+    assert.throws(() => second.consume("alice", ["fs_write", "fs_write"]), RateLimitError);
+    await second.close();
+  });
+});
+
+describe("QuotaStore", () => {
+  test("resets at the next UTC midnight", () => {
+    assert.equal(
+      QuotaStore.nextReset(new Date("2024-03-31T23:59:59Z")).toISOString(),
+      "2024-04-01T00:00:00.000Z"
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AuthProvider } from "../src/auth/provider.js";
+import { loadConfig } from "../src/config.js";
+import { ConfigReloader } from "../src/server/reload.js";
+import type { GatewayConfig } from "../src/types.js";
+
+const OLD_KEY = "alice-old-key-0123456789";
+const NEW_KEY = "alice-new-key-0123456789";
+
+describe("ConfigReloader", () => {
+  let dir: string;
+  let configPath: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), "reload-test-"));
+    configPath = join(dir, "config.json");
+    process.env.CONFIG_PATH = configPath;
+  });
+
+  after(() => {
+    delete process.env.CONFIG_PATH;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Write a config file with the given login key and downstream servers
+   */
+  function writeConfig(token: string, servers: string[], extra: Record<string, unknown> = {}): void {
+    writeFileSync(
+      configPath,
+      JSON.stringify({
+        server: { baseUrl: "http://localhost:3000" },
+        auth: {
+          users: [{ id: "alice", email: "alice@example.com", name: "Alice", token, scopes: ["tools:read"] }],
+        },
+        mcpServers: servers.map((id) => ({ id, name: id, command: "node" })),
+        ...extra,
+      })
+    );
+  }
+
+  let reloader: ConfigReloader;
+  let provider: AuthProvider;
+  let applied: string[][];
+
+  beforeEach(() => {
+    writeConfig(OLD_KEY, ["fs"]);
+    const config = loadConfig();
+    reloader = new ConfigReloader(config);
+    provider = new AuthProvider(config.auth);
+    applied = [];
+
+    reloader.addHandler({
+      name: "auth",
+      sections: ["auth"],
+      apply: (next) => provider.reload(next.auth),
+    });
+    reloader.addHandler({
+      name: "servers",
+      sections: ["mcpServers"],
+      apply: (next) => {
+        applied.push(next.mcpServers.map((server) => server.id));
+      },
+    });
+  });
+
+  test("applies a valid config through every handler", async () => {
+    writeConfig(NEW_KEY, ["fs", "git"]);
+    assert.equal(await reloader.reload("test"), true);
+
+    assert.deepEqual(applied, [["fs", "git"]]);
+    assert.equal((await provider.validateToken(NEW_KEY)).id, "alice");
+    await assert.rejects(provider.validateToken(OLD_KEY));
+    assert.deepEqual(reloader.config.mcpServers.map((server) => server.id), ["fs", "git"]);
+  });
+
+  test("rejects an invalid config and keeps the running one", async () => {
+    const running = reloader.config;
+    writeFileSync(configPath, JSON.stringify({ server: { baseUrl: "not a url" } }));
+    assert.equal(await reloader.reload("test"), false);
+
+    assert.equal(reloader.config, running);
+    assert.deepEqual(applied, []);
+    assert.equal((await provider.validateToken(OLD_KEY)).id, "alice");
+  });
+
+  test("keeps the sections of handlers that succeeded when a later one fails", async () => {
+    const seen: Array<GatewayConfig["auth"]> = [];
+    reloader.addHandler({
+      name: "failing",
+      sections: ["redaction"],
+      apply: (_next, previous) => {
+        seen.push(previous.auth);
+        throw new Error("boom");
+      },
+    });
+
+    writeConfig(NEW_KEY, ["git"]);
+    assert.equal(await reloader.reload("test"), false);
+
+    // The failing handler saw the auth section already applied, and so does the running config
+    assert.equal(seen[0].users[0].token, NEW_KEY);
+    assert.equal(reloader.config.auth.users[0].token, NEW_KEY);
+    assert.deepEqual(reloader.config.mcpServers.map((server) => server.id), ["git"]);
+    assert.equal((await provider.validateToken(NEW_KEY)).id, "alice");
+  });
+
+  test("stops at the first failing handler", async () => {
+    const failing = new ConfigReloader(reloader.config);
+    failing.addHandler({
+      name: "auth",
+      sections: ["auth"],
+      apply: () => {
+        throw new Error("boom");
+      },
+    });
+    failing.addHandler({
+      name: "servers",
+      sections: ["mcpServers"],
+      apply: (next) => {
+        applied.push(next.mcpServers.map((server) => server.id));
+      },
+    });
+
+    writeConfig(NEW_KEY, ["git"]);
+    assert.equal(await failing.reload("test"), false);
+    assert.deepEqual(applied, []);
+    assert.deepEqual(failing.config.mcpServers.map((server) => server.id), ["fs"]);
+    assert.equal(failing.config.auth.users[0].token, OLD_KEY);
+  });
+
+  test("queues one more reload for triggers that arrive mid-reload", async () => {
+    writeConfig(NEW_KEY, ["git"]);
+    const reloads = [reloader.reload("first"), reloader.reload("second"), reloader.reload("third")];
+    assert.deepEqual(await Promise.all(reloads), [true, true, true]);
+
+    // Let the queued reload run
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.deepEqual(applied, [["git"], ["git"]]);
+  });
+});